@@ -1,13 +1,14 @@
 import React, { useCallback } from 'react';
-import { useDropzone } from 'react-dropzone';
+import { useDropzone, ErrorCode, FileRejection } from 'react-dropzone';
 import { Upload, Music } from 'lucide-react';
 import { clsx } from 'clsx';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
+  onFileRejected?: (file: File) => void; // A file that isn't one of the supported formats
 }
 
-export function FileUpload({ onFileSelect }: FileUploadProps) {
+export function FileUpload({ onFileSelect, onFileRejected }: FileUploadProps) {
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
       const file = acceptedFiles[0];
@@ -15,10 +16,17 @@ export function FileUpload({ onFileSelect }: FileUploadProps) {
     }
   }, [onFileSelect]);
 
+  const onDropRejected = useCallback((rejections: FileRejection[]) => {
+    const rejected = rejections.find(({ errors }) => errors.some(({ code }) => code === ErrorCode.FileInvalidType));
+    if (rejected) onFileRejected?.(rejected.file);
+  }, [onFileRejected]);
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
+    onDropRejected,
     accept: {
-      'audio/*': ['.mp3', '.wav']
+      'audio/*': ['.mp3', '.wav'],
+      'audio/midi': ['.mid', '.midi']
     },
     maxFiles: 1
   });
@@ -40,11 +48,11 @@ export function FileUpload({ onFileSelect }: FileUploadProps) {
         )}
         <div>
           <p className="text-lg font-medium text-gray-300">
-            {isDragActive ? "Drop your audio file here" : "Drag & drop your piano audio file"}
+            {isDragActive ? "Drop your audio file here" : "Drag & drop your piano audio or MIDI file"}
           </p>
           <p className="text-sm text-gray-400 mt-1">or click to browse</p>
         </div>
-        <p className="text-xs text-gray-500">Supported formats: MP3, WAV</p>
+        <p className="text-xs text-gray-500">Supported formats: MP3, WAV, MIDI</p>
       </div>
     </div>
   );
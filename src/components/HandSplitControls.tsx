@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { midiToNoteName } from '../utils/musicTheory';
+import { DEFAULT_SPLIT_MIDI, HandSplitOverrides } from '../utils/handSeparation';
+
+interface HandSplitControlsProps {
+  measureCount: number;
+  overrides: HandSplitOverrides;
+  onChange: (overrides: HandSplitOverrides) => void;
+  disabled?: boolean;
+}
+
+// Split points offered, C2 to C6
+const SPLIT_CHOICES = Array.from({ length: 49 }, (_, index) => 36 + index);
+
+export function HandSplitControls({ measureCount, overrides, onChange, disabled }: HandSplitControlsProps) {
+  const [measure, setMeasure] = useState(1);
+  const [splitMidi, setSplitMidi] = useState(DEFAULT_SPLIT_MIDI);
+
+  const handleApply = () => {
+    const index = Math.min(Math.max(1, Math.round(measure)), measureCount) - 1;
+    onChange({ ...overrides, [index]: splitMidi });
+  };
+
+  const handleRemove = (index: number) => {
+    const next = { ...overrides };
+    delete next[index];
+    onChange(next);
+  };
+
+  const overridden = Object.keys(overrides).map(Number).sort((a, b) => a - b);
+
+  return (
+    <div className="mb-6 p-4 rounded-lg bg-white/5 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-semibold">Hand split</span>
+        <span className="text-gray-400">Automatic - override for measure</span>
+        <input
+          type="number"
+          min={1}
+          max={measureCount}
+          value={measure}
+          onChange={event => setMeasure(Number(event.target.value))}
+          disabled={disabled}
+          className="w-16 px-2 py-1 rounded-md bg-white/10 text-white disabled:opacity-50"
+          aria-label="Measure number"
+        />
+        <span className="text-gray-400">right hand from</span>
+        <select
+          value={splitMidi}
+          onChange={event => setSplitMidi(Number(event.target.value))}
+          disabled={disabled}
+          className="px-2 py-1 rounded-md bg-white/10 text-white disabled:opacity-50"
+          aria-label="Lowest right-hand note"
+        >
+          {SPLIT_CHOICES.map(midi => (
+            <option key={midi} value={midi} className="bg-gray-900">
+              {midiToNoteName(midi)}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleApply}
+          disabled={disabled}
+          className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </div>
+      {overridden.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {overridden.map(index => (
+            <span key={index} className="flex items-center gap-1 pl-3 pr-1 py-0.5 rounded-full bg-blue-600/30">
+              m. {index + 1}: {midiToNoteName(overrides[index])}
+              <button
+                onClick={() => handleRemove(index)}
+                disabled={disabled}
+                className="p-0.5 rounded-full hover:bg-white/10 disabled:opacity-50"
+                aria-label={`Remove the split for measure ${index + 1}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from 'react';
+import { Mic, Square } from 'lucide-react';
+import { clsx } from 'clsx';
+import { startLiveTranscription, LiveTranscriptionSession } from '../utils/liveTranscription';
+import type { AudioAnalysisResult } from '../utils/audioAnalysis';
+
+interface LiveRecorderProps {
+  onStart?: () => void;
+  onPartialResult: (result: AudioAnalysisResult) => void;
+  onComplete: (result: AudioAnalysisResult) => void;
+  onError: (message: string) => void;
+}
+
+type RecorderStatus = 'idle' | 'starting' | 'recording' | 'finishing';
+
+// Raw microphone signal - browser voice processing smears piano attacks and pitch
+const MICROPHONE_CONSTRAINTS: MediaStreamConstraints = {
+  audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+};
+
+function formatElapsed(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function LiveRecorder({ onStart, onPartialResult, onComplete, onError }: LiveRecorderProps) {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const sessionRef = useRef<LiveTranscriptionSession | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const releaseStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  // Drop the recording if the component goes away mid-take
+  useEffect(() => () => {
+    sessionRef.current?.cancel();
+    sessionRef.current = null;
+    releaseStream();
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'recording') return;
+    const startedAt = Date.now();
+    setElapsed(0);
+    const timer = setInterval(() => setElapsed(Math.floor((Date.now() - startedAt) / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  const handleStart = async () => {
+    setStatus('starting');
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia(MICROPHONE_CONSTRAINTS);
+      streamRef.current = stream;
+      onStart?.();
+      sessionRef.current = await startLiveTranscription(stream, {
+        onPartialResult,
+        onError: err => console.error("[LiveRecorder] Live analysis error:", err),
+      });
+      setStatus('recording');
+    } catch (err) {
+      console.error("[LiveRecorder] Could not start recording:", err);
+      releaseStream();
+      setStatus('idle');
+      onError(err instanceof Error && err.name === 'NotAllowedError'
+        ? 'Microphone access was denied.'
+        : 'Could not start recording from the microphone.');
+    }
+  };
+
+  const handleStop = async () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    setStatus('finishing');
+    try {
+      const result = await session.stop();
+      onComplete(result);
+    } catch (err) {
+      console.error("[LiveRecorder] Error finishing transcription:", err);
+      onError(err instanceof Error ? err.message : 'Error finishing the live transcription');
+    } finally {
+      sessionRef.current = null;
+      releaseStream();
+      setStatus('idle');
+    }
+  };
+
+  const isRecording = status === 'recording';
+
+  return (
+    <div className="border-2 border-dashed rounded-lg p-8 text-center border-gray-700">
+      <div className="flex flex-col items-center gap-4">
+        <button
+          onClick={isRecording ? handleStop : handleStart}
+          disabled={status === 'starting' || status === 'finishing'}
+          className={clsx(
+            "w-20 h-20 rounded-full flex items-center justify-center transition-colors disabled:opacity-50",
+            isRecording ? "bg-red-600 hover:bg-red-700 animate-pulse" : "bg-blue-600 hover:bg-blue-700"
+          )}
+          aria-label={isRecording ? 'Stop recording' : 'Start recording'}
+        >
+          {isRecording ? <Square className="w-8 h-8 text-white" /> : <Mic className="w-10 h-10 text-white" />}
+        </button>
+        <div>
+          <p className="text-lg font-medium text-gray-300">
+            {status === 'idle' && 'Record from your microphone'}
+            {status === 'starting' && 'Waiting for the microphone...'}
+            {status === 'recording' && `Recording ${formatElapsed(elapsed)}`}
+            {status === 'finishing' && 'Finishing transcription...'}
+          </p>
+          <p className="text-sm text-gray-400 mt-1">
+            {isRecording ? 'Notes appear on the sheet as you play' : 'Play your piano and watch the sheet fill in'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,40 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import * as ABCJS from 'abcjs';
+import { parseMusicXml } from '../utils/musicXmlParser';
+import { renderScore } from '../utils/vexflowRenderer';
 import './MusicSheet.css';
 
 // --- Component Interfaces ---
 interface MusicSheetProps {
-  notation: string; // The notation string (currently ABC format)
+  notation: string; // The notation string, in the given format
   title?: string; // Optional title for display/ABC header
-  format?: 'abc' | 'musicxml'; // Currently only 'abc' is fully supported
+  format?: 'abc' | 'musicxml'; // ABC renders through abcjs (with playback), MusicXML through VexFlow
   className?: string; // Re-added className prop
+  selection?: { start: number; end: number } | null; // Characters of the ABC element to show as selected
+  playing?: { start: number; end: number }[]; // ABC elements sounding at the recording's playback position
+  onNoteSelect?: (startChar: number, endChar: number) => void; // A note or chord of the ABC sheet was clicked
+  onSheetKeyDown?: (event: React.KeyboardEvent<HTMLDivElement>) => void; // Keys pressed while the sheet has focus
 }
 
-export function MusicSheet({ notation, title = "Sheet Music", format = 'abc', className }: MusicSheetProps) {
+export function MusicSheet({
+  notation,
+  title = "Sheet Music",
+  format = 'abc',
+  className,
+  selection,
+  playing,
+  onNoteSelect,
+  onSheetKeyDown,
+}: MusicSheetProps) {
   console.log('MusicSheet rendering with notation length:', notation?.length);
   
   const visualRef = useRef<HTMLDivElement>(null);
   const debugRef = useRef<HTMLPreElement>(null);
   const synthControlRef = useRef<any>(null);
   const visualObjRef = useRef<any[]>([]);
+  // The latest click handler, for the listener given to abcjs when it renders
+  const onNoteSelectRef = useRef(onNoteSelect);
+  onNoteSelectRef.current = onNoteSelect;
   
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -51,7 +69,12 @@ export function MusicSheet({ notation, title = "Sheet Music", format = 'abc', cl
         responsive: 'resize',
         staffwidth: 680,
         scale: 1.3,
-        add_classes: true
+        add_classes: true,
+        // Clicking a note selects it; the sheet takes focus so keys can edit it
+        clickListener: (abcElem: ABCJS.AbcElem) => {
+          onNoteSelectRef.current?.(abcElem.startChar, abcElem.endChar);
+          currentVisualElement.focus();
+        }
       };
       
       console.log("Attempting to render ABC notation with options:", renderOptions);
@@ -103,19 +126,7 @@ export function MusicSheet({ notation, title = "Sheet Music", format = 'abc', cl
           console.log("Simplified render successful!");
         } catch (retryError) {
           console.error("Simplified render failed:", retryError);
-          
-          // Last resort - fallback to a guaranteed working scale
-          console.log("Falling back to guaranteed working scale...");
-          const fallbackABC = "X:1\nT:Basic Scale\nM:4/4\nL:1/4\nK:C\nV:1 clef=treble\nC D E F | G A B c |";
-          renderResult = ABCJS.renderAbc(currentVisualElement, fallbackABC, {});
-          
-          // Add error message to the container
-          const errorDiv = document.createElement('div');
-          errorDiv.className = 'text-red-500 mt-4 p-3 border border-red-700 rounded';
-          errorDiv.textContent = 'Failed to render your music. Showing a basic scale instead.';
-          currentVisualElement.appendChild(errorDiv);
-          
-          throw new Error("Had to fall back to basic scale");
+          throw new Error("the transcription couldn't be drawn as ABC. Switch to the MusicXML view, or download the MIDI or MusicXML file instead.");
         }
       }
       
@@ -130,11 +141,47 @@ export function MusicSheet({ notation, title = "Sheet Music", format = 'abc', cl
       }
     } catch (err) {
       console.error('Error rendering notation:', err);
+      currentVisualElement.innerHTML = ''; // Never leave a half-drawn or substitute sheet up
+      setRenderSuccess(false);
       setError(`Rendering failed: ${err instanceof Error ? err.message : String(err)}`);
       setIsLoading(false);
     }
   }, [notation, format]);
   
+  // abcjs drops its highlight when it draws again, so the selection is shown after every render
+  useEffect(() => {
+    if (format !== 'abc' || !renderSuccess) return;
+    visualObjRef.current[0]?.engraver?.rangeHighlight(selection?.start ?? -1, selection?.end ?? -1);
+  }, [selection, notation, format, renderSuccess]);
+
+  // Notes sounding in the recording are marked, and the sheet scrolls to keep them in view
+  useEffect(() => {
+    const tune = visualObjRef.current[0];
+    if (format !== 'abc' || !renderSuccess || !tune || !playing || playing.length === 0) return;
+    const elements: Element[] = playing.flatMap(({ start }) => tune.getElementFromChar(start)?.abselem?.elemset ?? []);
+    elements.forEach(element => element.classList.add('abcjs-note_playing'));
+    elements[0]?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' });
+    return () => elements.forEach(element => element.classList.remove('abcjs-note_playing'));
+  }, [playing, notation, format, renderSuccess]);
+
+  // MusicXML render effect - engraved with VexFlow (no synth playback for this format)
+  useEffect(() => {
+    if (!notation || format !== 'musicxml' || !visualRef.current) return;
+
+    const currentVisualElement = visualRef.current;
+    setRenderSuccess(false);
+    try {
+      renderScore(currentVisualElement, parseMusicXml(notation));
+      setError(null);
+    } catch (err) {
+      console.error('Error rendering MusicXML:', err);
+      currentVisualElement.innerHTML = '';
+      setError(`Rendering failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [notation, format]);
+
   // Toggle debug view
   const toggleDebug = useCallback(() => {
     setShowDebug(prev => !prev);
@@ -268,14 +315,16 @@ export function MusicSheet({ notation, title = "Sheet Music", format = 'abc', cl
         
         {showDebug && (
           <div className="mb-4 p-4 bg-gray-800 rounded overflow-auto max-h-60">
-            <h3 className="text-sm font-medium mb-2 text-gray-400">ABC Notation:</h3>
+            <h3 className="text-sm font-medium mb-2 text-gray-400">{format === 'musicxml' ? 'MusicXML' : 'ABC Notation'}:</h3>
             <pre ref={debugRef} className="text-xs text-gray-300 whitespace-pre-wrap">{notation}</pre>
           </div>
         )}
         
         <div
           ref={visualRef}
-          className="music-sheet-visual bg-opacity-50 p-4 rounded-lg"
+          tabIndex={onSheetKeyDown ? 0 : undefined}
+          onKeyDown={onSheetKeyDown}
+          className="music-sheet-visual bg-opacity-50 p-4 rounded-lg focus:outline-none"
         />
         
         {isLoading && (
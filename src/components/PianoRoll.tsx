@@ -0,0 +1,386 @@
+import { useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent, MouseEvent, PointerEvent } from 'react';
+import { Trash2, ZoomIn, ZoomOut } from 'lucide-react';
+import type { Note } from '../utils/audioAnalysis';
+import type { EditDescription } from '../utils/editHistory';
+import { midiToNoteName, noteNameToMidi } from '../utils/musicTheory';
+
+// --- Piano Roll ---
+// Shows the transcription's notes on a time/pitch grid for hand correction. Notes are
+// selected by clicking (shift-click adds) or by dragging a box over them; dragging a
+// selected note moves the selection and dragging its right edge resizes it. Double-click
+// adds a note, Delete removes the selection and the arrow keys transpose it. Drags are
+// previewed locally and reported once, when the pointer is released.
+
+interface PianoRollProps {
+  notes: Note[];
+  beats?: number[]; // Tracked beat times, drawn as grid lines
+  onChange: (notes: Note[], edit: EditDescription) => void; // The edit names the step for undo
+  disabled?: boolean;
+}
+
+type Drag =
+  | { kind: 'move' | 'resize'; index: number; originX: number; originY: number; hasMoved: boolean }
+  | { kind: 'select'; originX: number; originY: number; x: number; y: number; isAdding: boolean };
+
+const ROW_HEIGHT = 10; // Pixels per semitone
+const RULER_HEIGHT = 18;
+const KEY_WIDTH = 44;
+const DEFAULT_PIXELS_PER_SECOND = 100;
+const MIN_PIXELS_PER_SECOND = 25;
+const MAX_PIXELS_PER_SECOND = 400;
+const RESIZE_HANDLE = 6; // Pixels at a note's right end that resize instead of move
+const DRAG_THRESHOLD = 3; // Pixels a press must travel to count as a drag
+const MIN_DURATION = 0.05; // Seconds
+const NEW_NOTE_DURATION = 0.25; // Seconds
+const NEW_NOTE_VELOCITY = 80;
+const PITCH_MARGIN = 3; // Empty rows above and below the notes
+const MIN_ROWS = 25;
+const LOWEST_MIDI = 21; // A0 to C8, the piano's range
+const HIGHEST_MIDI = 108;
+const BLACK_KEYS = new Set([1, 3, 6, 8, 10]);
+
+const clampMidi = (midi: number) => Math.min(HIGHEST_MIDI, Math.max(LOWEST_MIDI, midi));
+
+/**
+ * Moves notes in time and pitch
+ * @param notes All notes
+ * @param selected Indices of the notes to move
+ * @param seconds Time shift
+ * @param semitones Pitch shift
+ * @returns Copies of the notes; moved notes count as checked by hand
+ */
+function moveNotes(notes: Note[], selected: Set<number>, seconds: number, semitones: number): Note[] {
+  return notes.map((note, index) => {
+    const midi = noteNameToMidi(note.pitch);
+    if (!selected.has(index) || midi === null) return note;
+    return {
+      ...note,
+      pitch: semitones === 0 ? note.pitch : midiToNoteName(clampMidi(midi + semitones)),
+      startTime: Math.max(0, note.startTime + seconds),
+      confidence: 1,
+    };
+  });
+}
+
+/**
+ * Lengthens or shortens notes
+ * @param notes All notes
+ * @param selected Indices of the notes to resize
+ * @param seconds Change of duration
+ * @returns Copies of the notes, none shorter than MIN_DURATION
+ */
+function resizeNotes(notes: Note[], selected: Set<number>, seconds: number): Note[] {
+  return notes.map((note, index) =>
+    selected.has(index) ? { ...note, duration: Math.max(MIN_DURATION, note.duration + seconds), confidence: 1 } : note
+  );
+}
+
+export function PianoRoll({ notes, beats = [], onChange, disabled }: PianoRollProps) {
+  const [selection, setSelection] = useState<Set<number>>(new Set());
+  const [draft, setDraft] = useState<Note[] | null>(null); // Notes as previewed during a drag
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(DEFAULT_PIXELS_PER_SECOND);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const shown = draft ?? notes;
+  const selected = useMemo(() => new Set([...selection].filter(index => index < notes.length)), [selection, notes]);
+
+  // Pitch range from the committed notes, so it doesn't jump while dragging
+  const { topMidi, rowCount } = useMemo(() => {
+    const midis = notes.map(note => noteNameToMidi(note.pitch)).filter((midi): midi is number => midi !== null);
+    const low = midis.length > 0 ? Math.min(...midis) : 60;
+    const high = midis.length > 0 ? Math.max(...midis) : 60;
+    const extra = Math.max(0, MIN_ROWS - (high - low + 1 + 2 * PITCH_MARGIN));
+    const top = clampMidi(high + PITCH_MARGIN + Math.ceil(extra / 2));
+    const bottom = clampMidi(low - PITCH_MARGIN - Math.floor(extra / 2));
+    return { topMidi: top, rowCount: top - bottom + 1 };
+  }, [notes]);
+
+  const lastEnd = shown.reduce((end, note) => Math.max(end, note.startTime + note.duration), 0);
+  const width = Math.ceil((lastEnd + 2) * pixelsPerSecond);
+  const height = RULER_HEIGHT + rowCount * ROW_HEIGHT;
+  const rowTop = (midi: number) => RULER_HEIGHT + (topMidi - midi) * ROW_HEIGHT;
+
+  const pointAt = (event: PointerEvent<SVGSVGElement>) => {
+    const box = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - box.left, y: event.clientY - box.top };
+  };
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    if (disabled || event.button !== 0) return;
+    containerRef.current?.focus();
+    const { x, y } = pointAt(event);
+    const target = (event.target as Element).closest('[data-note]');
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    if (!target) {
+      if (!event.shiftKey) setSelection(new Set());
+      setDrag({ kind: 'select', originX: x, originY: y, x, y, isAdding: event.shiftKey });
+      return;
+    }
+    const index = Number(target.getAttribute('data-note'));
+    if (event.shiftKey || event.metaKey || event.ctrlKey) {
+      const next = new Set(selected);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      setSelection(next);
+      return;
+    }
+    if (!selected.has(index)) setSelection(new Set([index]));
+    const note = notes[index];
+    const rightEnd = (note.startTime + note.duration) * pixelsPerSecond;
+    setDrag({ kind: rightEnd - x <= RESIZE_HANDLE ? 'resize' : 'move', index, originX: x, originY: y, hasMoved: false });
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    const { x, y } = pointAt(event);
+    if (drag.kind === 'select') {
+      setDrag({ ...drag, x, y });
+      return;
+    }
+    const dx = x - drag.originX;
+    const dy = y - drag.originY;
+    if (!drag.hasMoved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    if (!drag.hasMoved) setDrag({ ...drag, hasMoved: true });
+    setDraft(
+      drag.kind === 'move'
+        ? moveNotes(notes, selected, dx / pixelsPerSecond, -Math.round(dy / ROW_HEIGHT))
+        : resizeNotes(notes, selected, dx / pixelsPerSecond)
+    );
+  };
+
+  const handlePointerUp = () => {
+    if (drag?.kind === 'select') {
+      // Notes overlapping the box join the selection
+      const left = Math.min(drag.originX, drag.x) / pixelsPerSecond;
+      const right = Math.max(drag.originX, drag.x) / pixelsPerSecond;
+      const top = Math.min(drag.originY, drag.y);
+      const bottom = Math.max(drag.originY, drag.y);
+      const boxed = new Set(drag.isAdding ? selected : []);
+      notes.forEach((note, index) => {
+        const midi = noteNameToMidi(note.pitch);
+        if (midi === null) return;
+        const y = rowTop(midi);
+        if (note.startTime < right && note.startTime + note.duration > left && y < bottom && y + ROW_HEIGHT > top) boxed.add(index);
+      });
+      setSelection(boxed);
+    } else if (draft) {
+      onChange(draft, { label: drag?.kind === 'resize' ? 'Resize notes' : 'Move notes' });
+    } else if (drag) {
+      setSelection(new Set([drag.index])); // A click on one of several selected notes picks it alone
+    }
+    setDraft(null);
+    setDrag(null);
+  };
+
+  const handleDoubleClick = (event: MouseEvent<SVGSVGElement>) => {
+    if (disabled || (event.target as Element).closest('[data-note]')) return;
+    const box = event.currentTarget.getBoundingClientRect();
+    const y = event.clientY - box.top;
+    if (y < RULER_HEIGHT) return;
+    const midi = clampMidi(topMidi - Math.floor((y - RULER_HEIGHT) / ROW_HEIGHT));
+    const note: Note = {
+      pitch: midiToNoteName(midi),
+      startTime: Math.max(0, (event.clientX - box.left) / pixelsPerSecond),
+      duration: NEW_NOTE_DURATION,
+      velocity: NEW_NOTE_VELOCITY,
+      confidence: 1,
+    };
+    onChange([...notes, note], { label: 'Add note' });
+    setSelection(new Set([notes.length]));
+  };
+
+  const deleteSelected = () => {
+    if (selected.size === 0) return;
+    onChange(
+      notes.filter((_, index) => !selected.has(index)),
+      { label: 'Delete notes' }
+    );
+    setSelection(new Set());
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault();
+      deleteSelected();
+    } else if ((event.key === 'ArrowUp' || event.key === 'ArrowDown') && selected.size > 0) {
+      event.preventDefault();
+      const semitones = (event.key === 'ArrowUp' ? 1 : -1) * (event.shiftKey ? 12 : 1);
+      onChange(moveNotes(notes, selected, 0, semitones), { label: 'Transpose notes', group: 'transpose' });
+    } else if (event.key === 'a' && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      setSelection(new Set(notes.map((_, index) => index)));
+    } else if (event.key === 'Escape') {
+      setSelection(new Set());
+    }
+  };
+
+  const handleVelocityChange = (velocity: number) => {
+    if (selected.size === 0 || !Number.isFinite(velocity)) return;
+    const clamped = Math.min(127, Math.max(1, Math.round(velocity)));
+    onChange(
+      notes.map((note, index) => (selected.has(index) ? { ...note, velocity: clamped, confidence: 1 } : note)),
+      { label: 'Change velocity', group: 'velocity' }
+    );
+  };
+
+  const selectedVelocities = [...selected].map(index => notes[index].velocity);
+  const shownVelocity =
+    selectedVelocities.length > 0 ? Math.round(selectedVelocities.reduce((sum, v) => sum + v, 0) / selectedVelocities.length) : '';
+  const rows = Array.from({ length: rowCount }, (_, row) => topMidi - row);
+  const seconds = Array.from({ length: Math.ceil(width / pixelsPerSecond) }, (_, second) => second);
+
+  return (
+    <div className="mb-6 p-4 rounded-lg bg-white/5 text-sm text-gray-300">
+      <div className="mb-3 flex flex-wrap items-center gap-3">
+        <span className="font-semibold">Notes</span>
+        <span className="text-gray-400">
+          {selected.size > 0
+            ? `${selected.size} selected - drag to move, drag the right end to resize, arrows to transpose`
+            : 'Click or drag a box to select, double-click to add'}
+        </span>
+        <label className="ml-auto flex items-center gap-2">
+          <span className="text-gray-400">Velocity</span>
+          <input
+            type="number"
+            min={1}
+            max={127}
+            value={shownVelocity}
+            onChange={event => handleVelocityChange(Number(event.target.value))}
+            disabled={disabled || selected.size === 0}
+            className="w-16 px-2 py-1 rounded-md bg-white/10 text-white disabled:opacity-50"
+          />
+        </label>
+        <button
+          onClick={deleteSelected}
+          disabled={disabled || selected.size === 0}
+          className="p-1.5 rounded-md hover:bg-white/10 disabled:opacity-50"
+          aria-label="Delete the selected notes"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setPixelsPerSecond(Math.max(MIN_PIXELS_PER_SECOND, pixelsPerSecond / 2))}
+          className="p-1.5 rounded-md hover:bg-white/10"
+          aria-label="Zoom out"
+        >
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setPixelsPerSecond(Math.min(MAX_PIXELS_PER_SECOND, pixelsPerSecond * 2))}
+          className="p-1.5 rounded-md hover:bg-white/10"
+          aria-label="Zoom in"
+        >
+          <ZoomIn className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className="flex max-h-80 overflow-y-auto rounded-md bg-black/30 outline-none focus:ring-1 focus:ring-blue-500"
+      >
+        {/* Keyboard - stays put while the grid scrolls sideways */}
+        <svg width={KEY_WIDTH} height={height} className="shrink-0">
+          {rows.map(midi => (
+            <g key={midi}>
+              <rect
+                x={0}
+                y={rowTop(midi)}
+                width={KEY_WIDTH}
+                height={ROW_HEIGHT}
+                fill={BLACK_KEYS.has(midi % 12) ? '#1f2937' : '#e5e7eb'}
+                stroke="#4b5563"
+                strokeWidth={0.5}
+              />
+              {midi % 12 === 0 && (
+                <text x={KEY_WIDTH - 4} y={rowTop(midi) + ROW_HEIGHT - 1.5} fontSize={8} textAnchor="end" fill="#111827">
+                  {midiToNoteName(midi)}
+                </text>
+              )}
+            </g>
+          ))}
+        </svg>
+
+        <div className="overflow-x-auto">
+          <svg
+            width={width}
+            height={height}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onDoubleClick={handleDoubleClick}
+            className={disabled ? 'opacity-60' : 'cursor-crosshair'}
+          >
+            {rows.map(midi => (
+              <rect
+                key={midi}
+                x={0}
+                y={rowTop(midi)}
+                width={width}
+                height={ROW_HEIGHT}
+                fill={BLACK_KEYS.has(midi % 12) ? 'rgba(255,255,255,0.02)' : 'rgba(255,255,255,0.06)'}
+              />
+            ))}
+            {beats.map(beat => (
+              <line
+                key={beat}
+                x1={beat * pixelsPerSecond}
+                x2={beat * pixelsPerSecond}
+                y1={RULER_HEIGHT}
+                y2={height}
+                stroke="rgba(255,255,255,0.12)"
+              />
+            ))}
+            {seconds.map(second => (
+              <text key={second} x={second * pixelsPerSecond + 2} y={12} fontSize={9} fill="#9ca3af">
+                {second}s
+              </text>
+            ))}
+
+            {shown.map((note, index) => {
+              const midi = noteNameToMidi(note.pitch);
+              if (midi === null) return null;
+              const isSelected = selected.has(index);
+              // Louder notes are more solid
+              return (
+                <rect
+                  key={index}
+                  data-note={index}
+                  x={note.startTime * pixelsPerSecond}
+                  y={rowTop(midi) + 1}
+                  width={Math.max(2, note.duration * pixelsPerSecond)}
+                  height={ROW_HEIGHT - 2}
+                  rx={2}
+                  fill={isSelected ? '#fbbf24' : '#60a5fa'}
+                  fillOpacity={0.35 + (0.65 * note.velocity) / 127}
+                  stroke={isSelected ? '#fef3c7' : '#93c5fd'}
+                  strokeWidth={isSelected ? 1.5 : 0.5}
+                  className={disabled ? undefined : 'cursor-move'}
+                >
+                  <title>{`${note.pitch} at ${note.startTime.toFixed(2)}s, ${note.duration.toFixed(2)}s, velocity ${note.velocity}`}</title>
+                </rect>
+              );
+            })}
+
+            {drag?.kind === 'select' && (
+              <rect
+                x={Math.min(drag.originX, drag.x)}
+                y={Math.min(drag.originY, drag.y)}
+                width={Math.abs(drag.x - drag.originX)}
+                height={Math.abs(drag.y - drag.originY)}
+                fill="rgba(96,165,250,0.15)"
+                stroke="#60a5fa"
+                strokeDasharray="4 2"
+              />
+            )}
+          </svg>
+        </div>
+      </div>
+    </div>
+  );
+}
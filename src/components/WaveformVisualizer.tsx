@@ -5,11 +5,17 @@ interface WaveformVisualizerProps {
   audioFile: File;
   onTimeUpdate?: (time: number) => void;
   onReady?: () => void;
+  onPlayingChange?: (isPlaying: boolean) => void;
+  seekRequest?: { time: number } | null; // Each new request moves playback to its time (seconds)
 }
 
-export function WaveformVisualizer({ audioFile, onTimeUpdate, onReady }: WaveformVisualizerProps) {
+export function WaveformVisualizer({ audioFile, onTimeUpdate, onReady, onPlayingChange, seekRequest }: WaveformVisualizerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
+  // The player's listeners read the latest callbacks through a ref, so the player is only
+  // made again for a new file, not whenever the parent renders
+  const callbacksRef = useRef({ onTimeUpdate, onReady, onPlayingChange });
+  callbacksRef.current = { onTimeUpdate, onReady, onPlayingChange };
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -33,18 +39,28 @@ export function WaveformVisualizer({ audioFile, onTimeUpdate, onReady }: Wavefor
     wavesurfer.loadBlob(audioFile);
 
     wavesurfer.on('ready', () => {
-      onReady?.();
+      callbacksRef.current.onReady?.();
     });
 
     wavesurfer.on('audioprocess', (time: number) => {
-      onTimeUpdate?.(time);
+      callbacksRef.current.onTimeUpdate?.(time);
     });
 
+    wavesurfer.on('play', () => callbacksRef.current.onPlayingChange?.(true));
+    wavesurfer.on('pause', () => callbacksRef.current.onPlayingChange?.(false));
+    wavesurfer.on('finish', () => callbacksRef.current.onPlayingChange?.(false));
+
     return () => {
       wavesurfer.destroy();
+      callbacksRef.current.onPlayingChange?.(false);
     };
   }, [audioFile]);
 
+  // Jump to a point asked for from outside, e.g. a note clicked on the sheet
+  useEffect(() => {
+    if (seekRequest) wavesurferRef.current?.setTime(seekRequest.time);
+  }, [seekRequest]);
+
   return (
     <div className="rounded-lg bg-gray-900 p-4">
       <div ref={containerRef} className="w-full" />
@@ -1,422 +1,417 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { FileUpload } from '../components/FileUpload';
+import { LiveRecorder } from '../components/LiveRecorder';
+import { HandSplitControls } from '../components/HandSplitControls';
+import { PianoRoll } from '../components/PianoRoll';
 import { MusicSheet } from '../components/MusicSheet';
 import { WaveformVisualizer } from '../components/WaveformVisualizer';
-import { Piano, Music, AudioWaveform as Waveform, AlertCircle } from 'lucide-react';
-import { analyzeAudio, AudioAnalysisResult, Note } from '../utils/audioAnalysis';
+import { Piano, Music, Mic, Download, Undo2, Redo2, AudioWaveform as Waveform } from 'lucide-react';
+import { analysisError, analyzeAudio, isAbortError, AnalysisProgress, AnalysisStage, AudioAnalysisResult, Note } from '../utils/audioAnalysis';
 import { analyzeAudioFile } from '../services/audioAnalysis';
+import { createMidiFile } from '../utils/midiExport';
+import { createMusicXml } from '../utils/musicXmlExport';
+import { isMidiFile, parseMidiFile } from '../utils/midiImport';
+import { downloadFile, exportFileName } from '../utils/download';
+import { createScoreTiming, quantizeNotes, splitIntoNoteValues, splitIntoSegments, splitRest, QuantizedScore, TICKS_PER_QUARTER } from '../utils/quantization';
+import { assignVoices, toStaffNotes, ChordGroup } from '../utils/voiceAssignment';
+import { splitHands, HandSplitOverrides } from '../utils/handSeparation';
+import { createTempoMap, tempoMarks } from '../utils/tempoMap';
+import { keyChanges } from '../utils/keyDetection';
+import { pedalMarks } from '../utils/pedalDetection';
+import { spellEditedNotes } from '../utils/pitchSpelling';
+import { detectDynamics } from '../utils/dynamics';
+import { adjacentLink, editFromKey, findLink, linkOfNotes, linksAt, AbcNoteLink, AbcSheet } from '../utils/sheetEditing';
+import {
+  EMPTY_HISTORY,
+  handSplitsCommand,
+  loadSession,
+  notesCommand,
+  recordEdit,
+  redo,
+  saveSession,
+  transcriptionCommand,
+  undo,
+  EditDescription,
+  EditHistory,
+} from '../utils/editHistory';
+import { keySignatureAlter, parseKey, parseTimeSignature, SpelledPitch, tempoUnit } from '../utils/musicTheory';
 
 // --- ABC Notation Generation Helpers ---
 
-// Basic mapping from Note pitch to ABC pitch (Helper from previous attempt - removed as noteNameToAbc handles it)
-// const pitchToAbc: { [key: string]: string } = { ... };
+const ABC_ACCIDENTALS: { [alter: number]: string } = { [-2]: '__', [-1]: '_', 0: '=', 1: '^', 2: '^^' };
+const LOW_CONFIDENCE = 0.8; // Notes the detector was less sure of are marked (abcjs "mark" class) for checking by ear
+const PEDAL_DOWN = '"_Ped."'; // Annotations below the bass staff - abcjs has no pedal decorations
+const PEDAL_UP = '"_*"';
 
-function noteNameToAbc(pitch: string): string {
-    if (!pitch || pitch.trim() === '') {
-        console.warn(`Empty pitch provided, returning rest`);
-        return 'z'; // Explicitly return rest for empty/whitespace pitch
-    }
-    
-    // Handle "pitchindefined" or other malformed pitch strings
-    if (pitch.includes('undefined') || pitch.includes('pitchindefined')) {
-        console.warn(`Found malformed pitch: ${pitch}. Treating as rest.`);
-        return 'z';
-    }
-    
-    try {
-        // Standard pitch format should be like "C4", "F#5", etc.
-        const match = pitch.match(/^([A-G])([#b]?)(-?\d+)$/);
-        if (!match) {
-            console.warn(`Unexpected pitch format: '${pitch}'. Treating as rest.`);
-            return 'z'; // Rest if format is unexpected
-        }
+// A decoration or annotation, written before the note or rest nearest a point in the score
+interface AbcMark {
+  tick: number;
+  text: string; // e.g. "!mf!"
+}
 
-        let note = match[1];       // The note letter (C, D, E, etc.)
-        const accidental = match[2]; // # or b
-        const octave = parseInt(match[3], 10);
-            
-        if (isNaN(octave)) {
-            console.warn(`Invalid octave in pitch: '${pitch}'. Treating as rest.`);
-            return 'z';
-        }
-        
-        // DEBUG: Log the pitch components
-        console.log(`[noteNameToAbc] Converting pitch: ${pitch} (note=${note}, accidental=${accidental}, octave=${octave})`);
-
-        // In ABC notation:
-        // - Middle C (C4) = C
-        // - C5 = c (lowercase means one octave higher)
-        // - C3 = C, (comma means one octave lower)
-        // - Accidentals: ^C = C# (sharp), _C = Cb (flat)
-        
-        // Build the ABC note
-        let abcNote = note;
-        
-        // Handle accidentals - add before the note letter
-        if (accidental === '#') abcNote = `^${note}`;
-        else if (accidental === 'b') abcNote = `_${note}`;
-
-        // Handle octave adjustments
-        if (octave < 4) {
-            // For lower octaves, add commas (each comma lowers by one octave)
-            abcNote += ','.repeat(4 - octave);
-        } else if (octave > 4) {
-            // For higher octaves, use lowercase for one octave up, then add apostrophes
-            abcNote = abcNote.toLowerCase();
-            if (octave > 5) {
-                // Add apostrophes for each octave above 5
-                abcNote += "'".repeat(octave - 5);
-            }
-        }
-        // Octave 4 keeps the default notation (uppercase, no symbols)
-        
-        console.log(`[noteNameToAbc] Converted to ABC: ${pitch} → ${abcNote}`);
-        return abcNote;
-    } catch (error) {
-        console.error(`Error in noteNameToAbc for pitch '${pitch}':`, error);
-        return 'z'; // Fall back to rest on any error
-    }
+// A note or chord written in one of a voice's measures, linked to the notes it stands for
+interface MeasureLink {
+  measure: number;
+  fromEnd: number; // Characters from its start to the end of the measure (prefixes added later don't move it)
+  length: number;
+  notes: Note[];
+  fromTick: number;
+  toTick: number;
+  isTiedOn: boolean;
 }
 
-// Determine ABC default note length (L:) and multipliers based on tempo/time sig
-// Using L:1/4 as base seems common for abcjs processing and duration ratios
-function getAbcLengthAndMultiplier(tempo: number, timeSignature: string): { defaultLength: string, beatLengthSeconds: number, measureDurationSeconds: number } {
-    const defaultLength = '1/4'; // Quarter note as the L: unit
-    const beatLengthSeconds = 60 / tempo; // Duration of a quarter note beat (matches L:)
-    const [numerator] = timeSignature.split('/').map(Number);
-    const measureDurationSeconds = beatLengthSeconds * numerator; // Total duration of a measure in seconds
-    return { defaultLength, beatLengthSeconds, measureDurationSeconds };
+// One voice's ABC, measure by measure, with its links
+interface VoiceNotation {
+  measures: string[]; // Without barlines
+  links: MeasureLink[];
 }
 
 /**
- * Converts a duration in seconds to an ABC notation length
- * @param durationSeconds Duration in seconds
- * @param beatLengthSeconds Duration of a beat in seconds
- * @returns ABC notation length string
+ * Writes a note's letter and octave in ABC (C4 is C, C5 is c, C3 is C,)
+ * @param step Letter name
+ * @param octave Scientific octave
+ * @returns ABC note without accidental
  */
-function secondsToAbcLength(durationSeconds: number, beatLengthSeconds: number): string {
-  // Standard note durations in ABC (relative to quarter note): 1/4=quarter, 1/2=half, 1=whole, etc.
-  const durationRatio = durationSeconds / beatLengthSeconds;
-  
-  // Use simplified duration values that ABCJS can reliably parse
-  // For L:1/4 (quarter note base):
-  
-  // Handle special cases first with exact matches
-  if (Math.abs(durationRatio - 4) < 0.2) return "4";     // Whole note
-  if (Math.abs(durationRatio - 3) < 0.2) return "3";     // Dotted half
-  if (Math.abs(durationRatio - 2) < 0.2) return "2";     // Half note
-  if (Math.abs(durationRatio - 1.5) < 0.2) return "3/2"; // Dotted quarter
-  if (Math.abs(durationRatio - 1) < 0.2) return "";      // Quarter (default, no modifier)
-  if (Math.abs(durationRatio - 0.5) < 0.15) return "/2"; // Eighth
-  if (Math.abs(durationRatio - 0.25) < 0.1) return "/4"; // Sixteenth
-  
-  // For longer notes, use integers only
-  if (durationRatio >= 4) return "4";  // Cap at whole note
-  if (durationRatio >= 3) return "3";  // Use dotted half note
-  if (durationRatio >= 2) return "2";  // Use half note
-  if (durationRatio >= 1.25) return "3/2"; // Dotted quarter
-  if (durationRatio >= 0.75) return ""; // Quarter note (default)
-  
-  // For shorter notes, use simple fractions
-  if (durationRatio >= 0.375) return "/2"; // Eighth note
-  if (durationRatio >= 0) return "/4";     // Sixteenth note
-  
-  // Failsafe
-  return "";  // Default to quarter note
+function abcNoteLetter(step: string, octave: number): string {
+  if (octave < 4) return step + ','.repeat(4 - octave);
+  if (octave === 4) return step;
+  return step.toLowerCase() + "'".repeat(octave - 5);
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
 }
 
 /**
- * Adds an event (note or rest) to the ABC staff, managing measure boundaries
- * @param abcStaff Current ABC staff content
- * @param event Note or rest in ABC notation
- * @param duration Duration in seconds
- * @param currentBeatInMeasure Current beat position in the measure
- * @param beatsPerMeasure Total beats per measure from time signature
- * @param beatLengthSeconds Duration of one beat in seconds
- * @returns Object with updated staff content, beat position, and measure count
+ * Converts a quantized length to an ABC length (relative to L:1/4)
+ * @param ticks Written length in quantizer ticks
+ * @returns ABC length suffix, e.g. "", "3/2" or "/4"
  */
-function addEventToStaff(
-  abcStaff: string,
-  event: string,
-  duration: number,
-  currentBeatInMeasure: number,
-  beatsPerMeasure: number,
-  beatLengthSeconds: number
-): { 
-  staff: string, 
-  currentBeat: number, 
-  measureCount: number 
-} {
-  console.log(`[addEventToStaff] Adding event: ${event}, duration: ${duration}, currentBeat: ${currentBeatInMeasure}`);
-
-  // Initialize measure count from existing staff content
-  const measureCount = (abcStaff.match(/\|/g) || []).length;
-  
-  // Convert duration to ABC notation length
-  const abcLength = secondsToAbcLength(duration, beatLengthSeconds);
-  
-  // Calculate beats this event will occupy in the measure
-  const eventBeats = duration / beatLengthSeconds;
-  const newBeatPosition = currentBeatInMeasure + eventBeats;
-  
-  let updatedStaff = abcStaff;
-  let updatedBeat = newBeatPosition;
-  let updatedMeasureCount = measureCount;
-  
-  // For extremely short events, use a minimum duration to prevent ABC parsing issues
-  if (eventBeats < 0.1) {
-    console.log(`[addEventToStaff] Using minimum duration for short event: ${event}`);
-    // Use a sixteenth note as minimum
-    updatedStaff += `${event}/4 `;
-    updatedBeat = currentBeatInMeasure + 0.25;
-    return { 
-      staff: updatedStaff, 
-      currentBeat: updatedBeat, 
-      measureCount: updatedMeasureCount 
-    };
-  }
-  
-  // SIMPLIFIED APPROACH: Just add notes/rests without complex measure handling
-  // This sacrifices some musical accuracy but is more likely to parse correctly
-  
-  // Case 1: Note fits in current measure
-  if (newBeatPosition <= beatsPerMeasure) {
-    // Add the note with its duration
-    updatedStaff += `${event}${abcLength} `;
-    updatedBeat = newBeatPosition;
-    
-    // If we've exactly filled a measure, add a barline
-    if (Math.abs(newBeatPosition - beatsPerMeasure) < 0.1) {
-      updatedStaff += "| ";
-      updatedBeat = 0;
-      updatedMeasureCount++;
-      
-      // Add a newline after every 4 measures for readability
-      if (updatedMeasureCount % 4 === 0) {
-        updatedStaff += "\n";
-      }
+function ticksToAbcLength(ticks: number): string {
+  const divisor = greatestCommonDivisor(ticks, TICKS_PER_QUARTER);
+  const numerator = ticks / divisor;
+  const denominator = TICKS_PER_QUARTER / divisor;
+  if (denominator === 1) return numerator === 1 ? '' : `${numerator}`;
+  return `${numerator === 1 ? '' : numerator}/${denominator}`;
+}
+
+/**
+ * Writes one voice's ABC, measure by measure
+ * @param groups Chord groups of the voice, in time order
+ * @param score Quantized score (beat grid and measure length)
+ * @param measureCount Number of measures to fill
+ * @param isMain Gaps are rests in the main voice and invisible rests (x) in the others
+ * @param measureFifths Key signature of each measure, for the accidentals it implies
+ * @param marks Decorations and annotations to write on the voice's nearest notes and rests
+ * @returns ABC content of each measure, and where the notes are written in it
+ */
+function generateVoiceMeasures(
+  groups: ChordGroup[],
+  score: QuantizedScore,
+  measureCount: number,
+  isMain: boolean,
+  measureFifths: number[],
+  marks: AbcMark[] = []
+): VoiceNotation {
+  // Accidentals in force in the current measure, by letter and octave; the key signature otherwise
+  const accidentals = new Map<string, number>();
+  let accidentalMeasure = -1;
+  const writePitch = ({ step, alter, octave }: SpelledPitch, measure: number) => {
+    if (measure !== accidentalMeasure) {
+      accidentals.clear();
+      accidentalMeasure = measure;
     }
-  }
-  // Case 2: Note would cross a measure boundary
-  else {
-    // Instead of complex ties, just end the current measure and start a new one
-    // This is less musically accurate but more reliable for parsing
-    
-    // Add a rest to fill the current measure
-    const remainingBeats = beatsPerMeasure - currentBeatInMeasure;
-    const remainingLength = secondsToAbcLength(remainingBeats * beatLengthSeconds, beatLengthSeconds);
-    updatedStaff += `z${remainingLength} | `;
-    updatedMeasureCount++;
-    
-    // Add a newline after every 4 measures
-    if (updatedMeasureCount % 4 === 0) {
-      updatedStaff += "\n";
+    const inForce = accidentals.get(`${step}${octave}`) ?? keySignatureAlter(step, measureFifths[measure]);
+    accidentals.set(`${step}${octave}`, alter);
+    return `${alter === inForce ? '' : ABC_ACCIDENTALS[alter]}${abcNoteLetter(step, octave)}`;
+  };
+
+  // Tokens in time order; triplet pieces remember their beat so each beat gets one bracket
+  const tokens: {
+    text: string;
+    start: number;
+    end: number;
+    tupletBeat: number | null;
+    measure: number;
+    isRest: boolean;
+    notes: Note[];
+    isTiedOn: boolean;
+  }[] = [];
+  const writeSpan = (pitches: SpelledPitch[], from: number, to: number, isDoubtful = false, performed: Note[] = []) => {
+    // Rests restart at beats; notes tie across segments
+    const isRest = pitches.length === 0;
+    const spans = isRest ? splitRest(from, to) : [[from, to]];
+    spans.flatMap(([spanStart, spanEnd]) => splitIntoSegments(score, spanStart, spanEnd)).forEach(segment => {
+      const values = splitIntoNoteValues(segment.end - segment.start, segment.isTuplet);
+      let start = segment.start;
+      values.forEach((value, index) => {
+        const notes = pitches.map(pitch => writePitch(pitch, segment.measure));
+        const event = isRest ? (isMain ? 'z' : 'x') : notes.length > 1 ? `[${notes.join('')}]` : notes[0];
+        const written = value.isTuplet ? (value.ticks * 3) / 2 : value.ticks; // Triplets are written 3:2
+        const tiedOn = !isRest && (index < values.length - 1 || segment.end < to);
+        tokens.push({
+          text: `${isDoubtful ? '!mark!' : ''}${event}${ticksToAbcLength(written)}${tiedOn ? '-' : ''}`,
+          start,
+          end: start + value.ticks,
+          tupletBeat: segment.isTuplet ? Math.floor(segment.start / TICKS_PER_QUARTER) : null,
+          measure: segment.measure,
+          isRest,
+          notes: performed,
+          isTiedOn: tiedOn,
+        });
+        start += value.ticks;
+      });
+    });
+  };
+
+  let position = score.startTick; // A pickup measure is written short
+  groups.forEach(group => {
+    if (group.start > position) writeSpan([], position, group.start);
+    writeSpan(group.pitches, group.start, group.end, (group.confidence ?? 1) < LOW_CONFIDENCE, group.notes);
+    position = group.end;
+  });
+  const end = measureCount * score.measureTicks;
+  if (end > position) writeSpan([], position, end);
+
+  // Each mark goes on the token starting nearest to it, in the order given
+  const tokenMarks = new Map<number, string[]>();
+  marks.forEach(mark => {
+    if (tokens.length === 0) return;
+    const nearest = tokens.reduce(
+      (best, token, index) => (Math.abs(token.start - mark.tick) < Math.abs(tokens[best].start - mark.tick) ? index : best),
+      0
+    );
+    tokenMarks.set(nearest, [...(tokenMarks.get(nearest) ?? []), mark.text]);
+  });
+  tokenMarks.forEach((texts, index) => {
+    tokens[index].text = `${texts.join('')}${tokens[index].text}`;
+  });
+
+  const measures: string[] = Array.from({ length: measureCount }, () => '');
+  const offsets: number[] = []; // Where each token starts in its measure
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    if (token.tupletBeat !== null && previous?.tupletBeat !== token.tupletBeat) {
+      const count = tokens.slice(index).findIndex(later => later.tupletBeat !== token.tupletBeat);
+      measures[token.measure] += `(3:2:${count === -1 ? tokens.length - index : count}`;
     }
-    
-    // Add the note in the next measure
-    updatedStaff += `${event}${abcLength} `;
-    updatedBeat = eventBeats;
-    
-    // If the note exactly fills the next measure, add a barline
-    if (Math.abs(eventBeats - beatsPerMeasure) < 0.1) {
-      updatedStaff += "| ";
-      updatedBeat = 0;
-      updatedMeasureCount++;
-      
-      // Add a newline after every 4 measures
-      if (updatedMeasureCount % 4 === 0) {
-        updatedStaff += "\n";
-      }
+    offsets.push(measures[token.measure].length);
+    measures[token.measure] += `${token.text} `;
+  });
+  // Measures a secondary voice sits out are one invisible rest
+  const hasNotes = new Set(tokens.filter(token => !token.isRest).map(token => token.measure));
+  const written = measures.map((measure, index) =>
+    isMain || hasNotes.has(index) ? measure.trim() : `x${ticksToAbcLength(score.measureTicks - (index === 0 ? score.startTick : 0))}`
+  );
+  const links: MeasureLink[] = [];
+  tokens.forEach((token, index) => {
+    if (token.notes.length === 0) return;
+    links.push({
+      measure: token.measure,
+      fromEnd: written[token.measure].length - offsets[index],
+      length: token.text.length,
+      notes: token.notes,
+      fromTick: token.start,
+      toTick: token.end,
+      isTiedOn: token.isTiedOn,
+    });
+  });
+  return { measures: written, links };
+}
+
+/**
+ * Writes a tempo as an ABC Q: value, counting the meter's beat (see tempoUnit)
+ * @param bpm Quarter notes per minute
+ * @param timeSignature Meter of the piece
+ * @returns e.g. "1/4=120" or "3/8=80"
+ */
+function abcTempo(bpm: number, timeSignature: string): string {
+  const unit = tempoUnit(timeSignature);
+  return `${unit.abc}=${Math.round(bpm / unit.quarters)}`;
+}
+
+/**
+ * Writes a key as an ABC K: value
+ * @param key Key as reported by the analysis, e.g. "F# Minor"
+ * @returns e.g. "F#m"
+ */
+function abcKeyName(key: string): string {
+  return key.replace(' Major', '').replace(' Minor', 'm');
+}
+
+const MAX_MEASURES_PER_LINE = 4;
+const MAX_EVENTS_PER_LINE = 32; // Notes, chords and rests in the busiest voice of a line
+
+/**
+ * Chooses where the score's lines break: up to four measures a line, fewer when busy
+ * @param voices Measures of every voice
+ * @param measureCount Number of measures
+ * @returns Index of the first measure of each line
+ */
+function chooseLineStarts(voices: string[][], measureCount: number): number[] {
+  const starts: number[] = [];
+  let lineEvents = 0;
+  for (let measure = 0; measure < measureCount; measure++) {
+    const events = voices.reduce((most, measures) => Math.max(most, measures[measure].split(' ').length), 1);
+    const lineLength = starts.length > 0 ? measure - starts[starts.length - 1] : 0;
+    if (starts.length === 0 || lineLength >= MAX_MEASURES_PER_LINE || lineEvents + events > MAX_EVENTS_PER_LINE) {
+      starts.push(measure);
+      lineEvents = 0;
     }
+    lineEvents += events;
   }
-  
-  return {
-    staff: updatedStaff,
-    currentBeat: updatedBeat,
-    measureCount: updatedMeasureCount
-  };
+  return starts;
 }
 
 /**
- * Generates staff notation from a list of notes
- * @param notes List of notes to convert to ABC notation
- * @param beatLengthSeconds Duration of a beat in seconds
- * @param beatsPerMeasure Beats per measure from time signature
- * @returns Complete ABC staff content
+ * Generates one staff's ABC voices from quantized notes, keeping real bar positions
+ * @param notes Notes of the staff
+ * @param score Quantized score containing those notes
+ * @param measureCount Number of measures to fill
+ * @param measureFifths Key signature of each measure
+ * @param marks Decorations and annotations, written in the main voice
+ * @returns Measures and links per voice; chords share a voice, sustained notes get a second one
  */
 function generateStaffNotation(
   notes: Note[],
-  beatLengthSeconds: number,
-  beatsPerMeasure: number
-): string {
-  if (!notes || notes.length === 0) {
-    // Return a full measure rest if no notes
-    return `z${beatsPerMeasure} | `;
-  }
-  
-  let staff = '';
-  let currentBeat = 0;
-  let measureCount = 0;
-  let lastNoteEndTime = 0;
-  
-  // Sort notes by start time
-  const sortedNotes = [...notes].sort((a, b) => a.startTime - b.startTime);
-  
-  for (let i = 0; i < sortedNotes.length; i++) {
-    const note = sortedNotes[i];
-    
-    // Calculate gap between previous note and this one
-    const gap = note.startTime - lastNoteEndTime;
-    
-    // If there's a significant gap, add a rest
-    if (gap > beatLengthSeconds * 0.1) {
-      // Add rest to bridge the gap
-      const result = addEventToStaff(staff, 'z', gap, currentBeat, beatsPerMeasure, beatLengthSeconds);
-      staff = result.staff;
-      currentBeat = result.currentBeat;
-      measureCount = result.measureCount;
-    }
-    
-    // Convert note pitch to ABC notation
-    const abcNote = noteNameToAbc(note.pitch);
-    
-    // Add the note
-    const result = addEventToStaff(staff, abcNote, note.duration, currentBeat, beatsPerMeasure, beatLengthSeconds);
-    staff = result.staff;
-    currentBeat = result.currentBeat;
-    measureCount = result.measureCount;
-    
-    // Update the end time for calculating the next gap
-    lastNoteEndTime = note.startTime + note.duration;
-  }
-  
-  // Complete the final measure with rests if needed
-  if (currentBeat > 0 && currentBeat < beatsPerMeasure) {
-    const remainingBeats = beatsPerMeasure - currentBeat;
-    const restDuration = remainingBeats * beatLengthSeconds;
-    
-    const result = addEventToStaff(staff, 'z', restDuration, currentBeat, beatsPerMeasure, beatLengthSeconds);
-    staff = result.staff;
-  }
-  
-  // Ensure we end with a barline
-  if (!staff.trim().endsWith('|')) {
-    staff += '|';
-  }
-  
-  return staff;
+  score: QuantizedScore,
+  measureCount: number,
+  measureFifths: number[],
+  marks: AbcMark[] = []
+): VoiceNotation[] {
+  const voices = assignVoices(toStaffNotes(notes, score)).map((groups, index) =>
+    generateVoiceMeasures(groups, score, measureCount, index === 0, measureFifths, index === 0 ? marks : [])
+  );
+  console.log(`[generateStaffNotation] ${notes.length} notes in ${voices.length} voice(s), ${measureCount} measures.`);
+  return voices;
 }
 
-// Helper function to create a super simple, guaranteed-to-parse ABC notation
-function createSimpleAbc(analysis: AudioAnalysisResult): string {
-  // Use very minimal ABC notation with just a few notes
-  let abc = 'X:1\n';
-  abc += 'T:Simple Transcription\n';
-  abc += 'M:4/4\n';
-  abc += 'L:1/4\n';
-  abc += 'K:C\n';
-  
-  // Add a few simple notes from the analysis if possible
-  abc += 'V:1 clef=treble\n';
-  
-  // Pick up to 8 notes from the treble range if available
-  const trebleNotes = analysis.notes
-    .filter(note => {
-      try {
-        const match = note.pitch?.match(/^([A-G][#b]?)(\d+)$/);
-        if (!match) return false;
-        const octave = parseInt(match[2], 10);
-        return !isNaN(octave) && octave >= 4;
-      } catch (e) {
-        return false;
-      }
-    })
-    .slice(0, 8);
-    
-  if (trebleNotes.length > 0) {
-    let trebleLine = '';
-    // Add simple quarter notes - 4 per measure
-    for (let i = 0; i < trebleNotes.length; i++) {
-      try {
-        const note = trebleNotes[i];
-        if (note && note.pitch) {
-          const pitchPart = note.pitch.match(/^([A-G][#b]?)(\d+)$/);
-          if (pitchPart) {
-            // Create a very basic note, no accidentals or complex notation
-            const noteLetter = pitchPart[1].charAt(0);
-            const octave = parseInt(pitchPart[2], 10);
-            
-            // Simple octave representation
-            let abcNote = octave >= 5 ? noteLetter.toLowerCase() : noteLetter;
-            trebleLine += abcNote + ' ';
-          } else {
-            trebleLine += 'C ';
-          }
-        } else {
-          trebleLine += 'C ';
-        }
-        
-        // Add barlines every 4 notes
-        if ((i + 1) % 4 === 0) {
-          trebleLine += '| ';
-        }
-      } catch (e) {
-        trebleLine += 'C ';
-      }
-    }
-    
-    // Ensure we end with a barline
-    if (!trebleLine.trim().endsWith('|')) {
-      trebleLine += '|';
-    }
-    
-    abc += trebleLine + '\n';
-  } else {
-    // If no notes, add a simple C major scale
-    abc += 'C D E F | G A B c |\n';
-  }
-  
-  // Add a simple bass clef with a C major chord
-  abc += 'V:2 clef=bass\n';
-  abc += 'C,, E,, G,, C, |\n';
-  
-  return abc;
+// --- React Component ---
+
+function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
 }
 
-// --- React Component ---
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  decoding: 'Decoding audio...',
+  mixdown: 'Preparing audio channels...',
+  onsets: 'Finding note attacks...',
+  notes: 'Detecting notes...',
+  tempo: 'Estimating tempo...',
+  key: 'Detecting key...',
+  timeSignature: 'Detecting time signature...',
+  finalizing: 'Cleaning up notes...',
+};
+
+type InputMode = 'upload' | 'record';
+type SheetFormat = 'abc' | 'musicxml';
 
 export function Home() {
+  // The transcription and its edits from before a reload of this tab
+  const [restoredSession] = useState(loadSession);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [notation, setNotation] = useState<string>('');
+  const [notation, setNotation] = useState<string>(restoredSession?.notation ?? '');
   const [error, setError] = useState<string>('');
-  const [analysisResult, setAnalysisResult] = useState<AudioAnalysisResult | null>(null);
-  const [currentTime, setCurrentTime] = useState(0);
+  const [analysisResult, setAnalysisResult] = useState<AudioAnalysisResult | null>(
+    restoredSession?.history.present.analysis ?? null
+  );
+  // Written notes and chords sounding where the recording is playing
+  const [playbackCursor, setPlaybackCursor] = useState<AbcNoteLink[]>([]);
+  // Latest request to move the recording's playback, e.g. to a note clicked on the sheet
+  const [seekRequest, setSeekRequest] = useState<{ time: number } | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [inputMode, setInputMode] = useState<InputMode>('upload');
+  const [sheetFormat, setSheetFormat] = useState<SheetFormat>('abc');
+  const [isRecording, setIsRecording] = useState(false);
+  // Split points the user set between the hands, by measure
+  const [handSplits, setHandSplits] = useState<HandSplitOverrides>(restoredSession?.history.present.handSplits ?? {});
+  // Undo and redo over the transcription and the edits to it
+  const [history, setHistory] = useState<EditHistory>(restoredSession?.history ?? EMPTY_HISTORY);
+  // The same history for the handlers: one that finishes after an await or runs from a
+  // child's stored callback would otherwise record its edit on the history it started with
+  const historyRef = useRef(history);
+  // The note or chord selected on the ABC sheet for editing
+  const [sheetSelection, setSheetSelection] = useState<AbcNoteLink | null>(null);
+  // Links of the sheet on show, from the last time it was written
+  const sheetRef = useRef<AbcSheet | null>(null);
+  // Controller of the analysis currently running; a new upload aborts it
+  const analysisControllerRef = useRef<AbortController | null>(null);
+
+  // Cancel any running analysis when leaving the page
+  useEffect(() => () => analysisControllerRef.current?.abort(), []);
+
+  /**
+   * Moves to a new point in the history and shows its transcription
+   * @param next History after an edit, undo or redo
+   * @returns The sheet now on show, null without a transcription
+   */
+  const showHistory = (next: EditHistory): AbcSheet | null => {
+    const { analysis, handSplits: splits } = next.present;
+    const sheet = analysis ? generateABCNotation(analysis, splits) : null;
+    sheetRef.current = sheet;
+    historyRef.current = next;
+    setHistory(next);
+    setAnalysisResult(analysis);
+    setHandSplits(splits);
+    setNotation(sheet?.abc ?? '');
+    setSheetSelection(null);
+    setError('');
+    saveSession(next, sheet?.abc ?? '');
+    return sheet;
+  };
 
   const handleFileSelect = async (file: File) => {
+    analysisControllerRef.current?.abort();
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+
     setSelectedFile(file);
     setIsProcessing(true);
+    setProgress(null);
     setError('');
     setNotation('');
     setAnalysisResult(null);
+    setHandSplits({});
 
     console.log("[Home] Starting audio processing...");
     
     try {
-      const analysis = await analyzeAudio(file);
+      // MIDI already has the notes - only audio goes through analysis
+      const analysis = isMidiFile(file) ? parseMidiFile(await file.arrayBuffer()) : await analyzeAudio(file, {
+        signal: controller.signal,
+        onProgress: setProgress,
+        // Long recordings are analysed in chunks - render each partial transcription as it lands
+        onPartialResult: partial => {
+          console.log(`[Home] Partial result with ${partial.notes.length} notes.`);
+          setAnalysisResult(partial);
+          sheetRef.current = generateABCNotation(partial);
+          setNotation(sheetRef.current.abc);
+        },
+      });
       console.log("[Home] Audio analysis complete. Result:", analysis); 
 
       if (!analysis || !analysis.notes) {
           console.error("[Home] Analysis result is invalid or missing notes.");
           setError("Failed to analyze audio: No notes data found.");
-          setIsProcessing(false);
           return;
       }
-      setAnalysisResult(analysis);
-      
-      // Generate ABC notation from the analysis result
+      // Nothing to transcribe - drop any partial sheet and say why
+      if (analysis.error || analysis.notes.length === 0) {
+        setAnalysisResult(null);
+        setNotation('');
+        setError(analysis.error?.message ?? 'The file contains no notes.');
+        return;
+      }
+      // Generate ABC notation from the analysis result; a new transcription is a step of
+      // its own, so re-analysing can be undone
       console.log("[Home] Calling generateABCNotation...");
-      const abcNotation = generateABCNotation(analysis);
+      const current = historyRef.current;
+      const sheet = showHistory(
+        recordEdit(current, transcriptionCommand(current.present, { analysis, handSplits: {} }, `Transcribe ${file.name}`))
+      );
+      const abcNotation = sheet?.abc ?? '';
       
       // Log the generated ABC notation in a more readable format
       console.log("[Home] Generated ABC Notation:");
@@ -425,20 +420,213 @@ export function Home() {
       abcNotation.split('\n').forEach((line, i) => console.log(`Line ${i+1}: ${line}`));
 
       // Always use the generated notation - MusicSheet will handle rendering and fallbacks
-      setNotation(abcNotation);
       console.log("[Home] ABC Notation state updated, length:", abcNotation.length);
 
     } catch (err) {
+      if (isAbortError(err)) {
+        // Superseded by a newer upload (or the page was left) - that run owns the state now
+        console.log("[Home] Analysis cancelled.");
+        return;
+      }
       const errorMsg = err instanceof Error ? err.message : 'Error processing audio file';
       setError(errorMsg);
       console.error("[Home] Error during audio processing or ABC generation:", err);
     } finally {
-      setIsProcessing(false);
-      console.log("[Home] Processing finished.");
+      if (analysisControllerRef.current === controller) {
+        analysisControllerRef.current = null;
+        setIsProcessing(false);
+        setProgress(null);
+        console.log("[Home] Processing finished.");
+      }
+    }
+  };
+
+  // --- Live Recording ---
+
+  const handleRecordingStart = () => {
+    analysisControllerRef.current?.abort();
+    analysisControllerRef.current = null;
+    setSelectedFile(null);
+    setIsProcessing(false);
+    setProgress(null);
+    setError('');
+    setNotation('');
+    setAnalysisResult(null);
+    setHandSplits({});
+    setIsRecording(true);
+    console.log("[Home] Live recording started.");
+  };
+
+  const handleLiveResult = (result: AudioAnalysisResult) => {
+    setAnalysisResult(result);
+    setNotation(generateABCNotation(result).abc);
+  };
+
+  const handleRecordingComplete = (result: AudioAnalysisResult) => {
+    console.log(`[Home] Live recording finished with ${result.notes.length} notes.`);
+    setIsRecording(false);
+    if (result.error) {
+      setAnalysisResult(null);
+      setNotation('');
+      setError(result.error.message);
+      return;
     }
+    const current = historyRef.current;
+    showHistory(recordEdit(current, transcriptionCommand(current.present, { analysis: result, handSplits: {} }, 'Record')));
+  };
+
+  const handleFileRejected = (file: File) => {
+    console.warn(`[Home] Rejected ${file.name} (${file.type || 'no type'}).`);
+    setError(analysisError('unsupportedFormat').message);
+  };
+
+  const handleRecordingError = (message: string) => {
+    setIsRecording(false);
+    setError(message);
   };
 
-  const generateABCNotation = (analysis: AudioAnalysisResult): string => {
+  const handleHandSplitsChange = (overrides: HandSplitOverrides) => {
+    const current = historyRef.current;
+    showHistory(recordEdit(current, handSplitsCommand(current.present.handSplits, overrides, { label: 'Change hand split' })));
+  };
+
+  const handleNotesChange = (notes: Note[], edit: EditDescription, isSpelled = false): AbcSheet | null => {
+    const current = historyRef.current;
+    const { analysis } = current.present;
+    if (!analysis) return null;
+    // Edited and added pitches are named with sharps - spell them for the key like the rest,
+    // unless the edit chose their spelling (an accidental toggled on the sheet)
+    const spelled = isSpelled ? notes : spellEditedNotes(analysis.notes, notes, analysis.key, analysis.keySegments);
+    console.log(`[Home] ${edit.label}: ${analysis.notes.length} -> ${notes.length} notes.`);
+    return showHistory(recordEdit(current, notesCommand(analysis.notes, spelled, edit)));
+  };
+
+  // --- Undo / Redo ---
+
+  const canEdit = !isProcessing && !isRecording;
+  const undoLabel = history.past[history.past.length - 1]?.label;
+  const redoLabel = history.future[0]?.label;
+
+  const handleUndo = () => {
+    if (canEdit && undoLabel) showHistory(undo(historyRef.current));
+  };
+
+  const handleRedo = () => {
+    if (canEdit && redoLabel) showHistory(redo(historyRef.current));
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on a Mac) anywhere on the page; the listener reads the
+  // latest handlers through a ref so it is added once
+  const shortcutsRef = useRef({ undo: handleUndo, redo: handleRedo });
+  shortcutsRef.current = { undo: handleUndo, redo: handleRedo };
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Text fields keep their own undo
+      if ((event.target as Element | null)?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        shortcutsRef.current.undo();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey)) {
+        event.preventDefault();
+        shortcutsRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // --- Editing on the Sheet ---
+
+  // The sheet on show with its links, written again when it was restored without them
+  const shownSheet = (): AbcSheet | null => {
+    if (!analysisResult) return null;
+    if (sheetRef.current?.abc !== notation) sheetRef.current = generateABCNotation(analysisResult);
+    return sheetRef.current;
+  };
+
+  const handleSheetNoteSelect = (startChar: number, endChar: number) => {
+    const sheet = shownSheet();
+    const link = sheet && findLink(sheet, startChar, endChar);
+    setSheetSelection(canEdit ? link : null);
+    // The recording jumps to the clicked note
+    if (link && analysisResult) {
+      setSeekRequest({ time: Math.min(...link.notes.map(index => analysisResult.notes[index].startTime)) });
+    }
+  };
+
+  // --- Playback Cursor ---
+
+  // Called by the waveform, which keeps the handler it was first given - so only refs and setters here
+  const handlePlaybackTime = (time: number) => {
+    const sounding = linksAt(sheetRef.current, time);
+    setPlaybackCursor(previous =>
+      previous.length === sounding.length && previous.every((link, index) => link === sounding[index]) ? previous : sounding
+    );
+  };
+
+  const handlePlayingChange = (isPlaying: boolean) => {
+    if (!isPlaying) setPlaybackCursor([]);
+  };
+
+  const handleSheetKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const sheet = shownSheet();
+    if (!canEdit || !sheet || !sheetSelection || !analysisResult || event.ctrlKey || event.metaKey || event.altKey) return;
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      event.preventDefault();
+      setSheetSelection(adjacentLink(sheet, sheetSelection, event.key === 'ArrowLeft' ? -1 : 1));
+      return;
+    }
+    if (event.key === 'Escape') {
+      setSheetSelection(null);
+      return;
+    }
+    const result = editFromKey(event.key, event.shiftKey, analysisResult.notes, sheetSelection, sheet.tempoMap);
+    if (!result) return;
+    event.preventDefault();
+    // The edited notes stay selected where the new sheet writes them
+    const edited = handleNotesChange(result.notes, result.edit, result.isSpelled);
+    setSheetSelection(edited && linkOfNotes(edited, result.selected, sheetSelection.voice));
+  };
+
+  // Measures in the transcription, for the split-point control
+  const measureCount = useMemo(() => {
+    if (!analysisResult) return 1;
+    const { beats, beatType } = parseTimeSignature(analysisResult.timeSignature);
+    const { tempoMap } = createScoreTiming(analysisResult.notes, analysisResult);
+    const lastEnd = analysisResult.notes.reduce((end, note) => Math.max(end, note.startTime + note.duration), 0);
+    return Math.max(1, Math.ceil(tempoMap.toQuarters(lastEnd) / ((beats * 4) / beatType)));
+  }, [analysisResult]);
+
+  // Notes marked in the ABC sheet for checking by ear
+  const doubtfulNoteCount = useMemo(
+    () => analysisResult?.notes.filter(note => (note.confidence ?? 1) < LOW_CONFIDENCE).length ?? 0,
+    [analysisResult]
+  );
+
+  // The engraved (VexFlow) view renders the same MusicXML the export writes
+  const musicXml = useMemo(
+    () => (sheetFormat === 'musicxml' && analysisResult ? createMusicXml(analysisResult, undefined, handSplits) : ''),
+    [sheetFormat, analysisResult, handSplits]
+  );
+
+  const handleDownloadMidi = () => {
+    if (!analysisResult) return;
+    downloadFile(createMidiFile(analysisResult, handSplits), 'audio/midi', exportFileName(selectedFile?.name, 'mid'));
+  };
+
+  const handleDownloadMusicXml = () => {
+    if (!analysisResult) return;
+    const fileName = exportFileName(selectedFile?.name, 'musicxml');
+    downloadFile(
+      createMusicXml(analysisResult, fileName.replace(/\.musicxml$/, ''), handSplits),
+      'application/vnd.recordare.musicxml+xml',
+      fileName
+    );
+  };
+
+  const generateABCNotation = (analysis: AudioAnalysisResult, splits: HandSplitOverrides = handSplits): AbcSheet => {
     console.log("[generateABCNotation] Function called with analysis:", analysis);
     console.log("[generateABCNotation] Notes count:", analysis.notes?.length);
     
@@ -449,126 +637,118 @@ export function Home() {
 
     if (!analysis || !analysis.notes || !Array.isArray(analysis.notes)) {
         console.warn("[generateABCNotation] Invalid analysis input or missing/invalid notes array. Returning empty ABC.");
-        return 'X:1\nT:Audio Transcription\nK:C\nM:4/4\nL:1/4\n|z4|';
+        return { abc: 'X:1\nT:Audio Transcription\nK:C\nM:4/4\nL:1/4\n|z4|', links: [], tempoMap: createTempoMap(undefined, 120) };
     }
     
-    // We no longer check for empty notes array since we now always have synthetic notes
+    // Failed analyses (see AudioAnalysisResult.error) have no notes and are never notated
 
     // Ensure required properties exist with defaults if needed
     const tempo = typeof analysis.tempo === 'number' ? analysis.tempo : 120;
     const timeSignature = typeof analysis.timeSignature === 'string' ? analysis.timeSignature : '4/4';
     const key = typeof analysis.key === 'string' ? analysis.key : 'C Major';
     
-    // Simplify the key representation 
-    let abcKey = key.replace(' Major', '').replace(' Minor', 'm');
-    
+    // Quantize once, against the tracked beats, so both staves share the beat grid; then split the hands
+    const { beats, downbeat } = analysis;
+    const score = quantizeNotes(analysis.notes, { tempo, beats, downbeat, timeSignature });
+    const { right: trebleNotes, left: bassNotes } = splitHands(analysis.notes, { tempo, beats, downbeat, timeSignature, overrides: splits });
+    const lastEnd = score.notes.reduce((end, quantized) => Math.max(end, quantized.end), 0);
+    const measureCount = Math.max(1, Math.ceil(lastEnd / score.measureTicks));
+    const marks = tempoMarks(score.tempoMap, score.measureTicks / TICKS_PER_QUARTER, measureCount);
+    const keys = keyChanges(analysis.keySegments, key, score.tempoMap, score.measureTicks / TICKS_PER_QUARTER, measureCount);
+    const measureFifths = Array.from({ length: measureCount }, (_, measure) =>
+      parseKey(keys.filter(change => change.measure <= measure).pop()!.key).fifths
+    );
+
     // Create a simple, reliable ABC header
     let abcString = '';
     abcString += 'X:1\n';
     abcString += 'T:Audio Transcription\n';
     abcString += `M:${timeSignature}\n`;
     abcString += 'L:1/4\n';  // Fixed length for simplicity
-    abcString += `Q:1/4=${tempo}\n`;
-    abcString += `K:${abcKey}\n`;
-    
-    // ULTRA-SIMPLE APPROACH: Create basic notation without complex formatting
-    // This sacrifices some formatting for reliability
-    
-    // Split notes into treble and bass clefs
-    const trebleNotes = analysis.notes.filter(note => {
-      const match = note.pitch?.match(/^([A-G][#b]?)(\d+)$/);
-      if (!match) return false;
-      const octave = parseInt(match[2], 10);
-      return octave >= 4; // Treble clef for octave 4 and above
-    });
-    
-    const bassNotes = analysis.notes.filter(note => {
-      const match = note.pitch?.match(/^([A-G][#b]?)(\d+)$/);
-      if (!match) return false;
-      const octave = parseInt(match[2], 10);
-      return octave < 4; // Bass clef for octave 3 and below
-    });
+    abcString += `Q:${abcTempo(marks[0].bpm, timeSignature)}\n`; // Later tempo changes are inline, in the top voice
+    abcString += '%%barnumbers 0\n'; // Number the first measure of every line
     
+
     console.log("[generateABCNotation] Treble notes count:", trebleNotes.length);
     console.log("[generateABCNotation] Bass notes count:", bassNotes.length);
-    
-    // Generate incredibly simple treble staff
-    abcString += 'V:1 clef=treble\n';
-    
-    // Create a very basic sequence of quarter notes
-    if (trebleNotes.length > 0) {
-      let trebleContent = '';
-      let noteCount = 0;
-      
-      for (let i = 0; i < Math.min(32, trebleNotes.length); i++) {
-        try {
-          const note = trebleNotes[i];
-          const abcNote = noteNameToAbc(note.pitch);
-          trebleContent += abcNote + ' ';
-          noteCount++;
-          
-          // Add barline every 4 notes
-          if (noteCount % 4 === 0) {
-            trebleContent += '| ';
-          }
-        } catch (e) {
-          console.error("[generateABCNotation] Error processing treble note:", e);
-          // Skip problematic notes
-        }
-      }
-      
-      // Ensure we end with a barline
-      if (!trebleContent.trim().endsWith('|')) {
-        trebleContent += '|';
-      }
-      
-      abcString += trebleContent + '\n';
-    } else {
-      // If no treble notes, add a rest measure
-      abcString += 'z4 |\n';
-    }
-    
-    // Generate incredibly simple bass staff
-    abcString += 'V:2 clef=bass\n';
-    
-    // Create a very basic sequence of quarter notes
-    if (bassNotes.length > 0) {
-      let bassContent = '';
-      let noteCount = 0;
-      
-      for (let i = 0; i < Math.min(32, bassNotes.length); i++) {
-        try {
-          const note = bassNotes[i];
-          const abcNote = noteNameToAbc(note.pitch);
-          bassContent += abcNote + ' ';
-          noteCount++;
-          
-          // Add barline every 4 notes
-          if (noteCount % 4 === 0) {
-            bassContent += '| ';
-          }
-        } catch (e) {
-          console.error("[generateABCNotation] Error processing bass note:", e);
-          // Skip problematic notes
-        }
-      }
-      
-      // Ensure we end with a barline
-      if (!bassContent.trim().endsWith('|')) {
-        bassContent += '|';
-      }
-      
-      abcString += bassContent + '\n';
-    } else {
-      // If no bass notes, add a rest measure
-      abcString += 'z4 |\n';
-    }
+
+    // Dynamics go under the treble staff, between the hands, and pedal marks under the bass
+    const dynamics = detectDynamics(score);
+    const dynamicMarks: AbcMark[] = [
+      ...dynamics.hairpins.flatMap(hairpin => {
+        const name = hairpin.isCrescendo ? 'crescendo' : 'diminuendo';
+        return [{ tick: hairpin.start, text: `!${name}(!` }, { tick: hairpin.end, text: `!${name})!` }];
+      }),
+      ...dynamics.marks.map(mark => ({ tick: mark.tick, text: `!${mark.level}!` })),
+    ].sort((a, b) => a.tick - b.tick); // Stable: a hairpin ends before the level it reaches
+    const pedal = pedalMarks(analysis.pedal, score.tempoMap).map(mark => ({ tick: mark.tick, text: mark.isDown ? PEDAL_DOWN : PEDAL_UP }));
+
+    // Voices 1-2 share the treble staff and 3-4 the bass staff
+    const staves = [
+      { clef: 'treble', firstVoice: 1, voices: generateStaffNotation(trebleNotes, score, measureCount, measureFifths, dynamicMarks) },
+      { clef: 'bass', firstVoice: 3, voices: generateStaffNotation(bassNotes, score, measureCount, measureFifths, pedal) },
+    ];
+    // Key changes go in every voice, since each voice keeps its own key
+    keys.slice(1).forEach(change => {
+      staves.forEach(staff => staff.voices.forEach(({ measures }) => {
+        measures[change.measure] = `[K:${abcKeyName(change.key)}] ${measures[change.measure]}`;
+      }));
+    });
+    marks.slice(1).forEach(mark => {
+      const topVoice = staves[0].voices[0].measures;
+      topVoice[mark.measure] = `[Q:${abcTempo(mark.bpm, timeSignature)}] ${topVoice[mark.measure]}`;
+    });
+    const voiceIds = staves.map(staff => staff.voices.map((_, index) => staff.firstVoice + index));
+    abcString += `%%score {${voiceIds.map(ids => (ids.length > 1 ? `(${ids.join(' ')})` : `${ids[0]}`)).join(' | ')}}\n`;
+    staves.forEach((staff, staffIndex) => {
+      // With two voices on a staff, the main voice stems up and the other down
+      voiceIds[staffIndex].forEach((id, voiceIndex, ids) => {
+        const stem = ids.length > 1 ? (voiceIndex === 0 ? ' stem=up' : ' stem=down') : '';
+        abcString += `V:${id} clef=${staff.clef}${stem}\n`;
+      });
+    });
+    abcString += `K:${abcKeyName(keys[0].key)}\n`;
+
+    // Voices are interleaved line by line so their measures stay aligned
+    // Each measure's end is noted as it is written, to place the notes linked in it
+    const lineStarts = chooseLineStarts(staves.flatMap(staff => staff.voices.map(voice => voice.measures)), measureCount);
+    const noteIndices = new Map(analysis.notes.map((note, index) => [note, index]));
+    const links: AbcNoteLink[] = [];
+    lineStarts.forEach((lineStart, lineIndex) => {
+      const lineEnd = lineStarts[lineIndex + 1] ?? measureCount;
+      staves.forEach((staff, staffIndex) => {
+        staff.voices.forEach(({ measures, links: voiceLinks }, voiceIndex) => {
+          const voice = voiceIds[staffIndex][voiceIndex];
+          const line = measures.slice(lineStart, lineEnd);
+          let position = abcString.length + `[V:${voice}] `.length;
+          const measureEnds = line.map(measure => {
+            position += measure.length + ' | '.length;
+            return position - ' | '.length;
+          });
+          voiceLinks.forEach(link => {
+            if (link.measure < lineStart || link.measure >= lineEnd) return;
+            const start = measureEnds[link.measure - lineStart] - link.fromEnd;
+            links.push({
+              start,
+              end: start + link.length,
+              voice,
+              notes: link.notes.flatMap(note => noteIndices.get(note) ?? []),
+              fromTick: link.fromTick,
+              toTick: link.toTick,
+              isTiedOn: link.isTiedOn,
+            });
+          });
+          abcString += `[V:${voice}] ${line.join(' | ')} |\n`;
+        });
+      });
+    });
+    console.log(`[generateABCNotation] ${measureCount} measures on ${lineStarts.length} lines, ${links.length} notes and chords linked.`);
     
     console.log("[generateABCNotation] Generated ABC notation:");
     console.log(abcString);
     
     // No sanitization or validation - use the simplified notation as-is
-    return abcString;
+    return { abc: abcString, links: links.sort((a, b) => a.start - b.start), tempoMap: score.tempoMap };
   };
 
   /**
@@ -704,11 +884,36 @@ export function Home() {
 
           <div className="space-y-8">
             <div className="bg-white/5 backdrop-blur-lg rounded-2xl p-8 border border-white/10">
-              <h2 className="text-2xl font-semibold mb-6 flex items-center gap-2">
-                <Waveform className="w-6 h-6" />
-                Upload Your Audio
-              </h2>
-              <FileUpload onFileSelect={handleFileSelect} />
+              <div className="mb-6 flex items-center justify-between gap-4">
+                <h2 className="text-2xl font-semibold flex items-center gap-2">
+                  {inputMode === 'upload' ? <Waveform className="w-6 h-6" /> : <Mic className="w-6 h-6" />}
+                  {inputMode === 'upload' ? 'Upload Your Audio' : 'Record Live'}
+                </h2>
+                <div className="flex rounded-lg bg-white/5 p-1 text-sm">
+                  {(['upload', 'record'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setInputMode(mode)}
+                      disabled={isRecording}
+                      className={`px-4 py-1.5 rounded-md transition-colors disabled:opacity-50 ${
+                        inputMode === mode ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-blue-400'
+                      }`}
+                    >
+                      {mode === 'upload' ? 'Upload' : 'Record'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {inputMode === 'upload' ? (
+                <FileUpload onFileSelect={handleFileSelect} onFileRejected={handleFileRejected} />
+              ) : (
+                <LiveRecorder
+                  onStart={handleRecordingStart}
+                  onPartialResult={handleLiveResult}
+                  onComplete={handleRecordingComplete}
+                  onError={handleRecordingError}
+                />
+              )}
               
               {error && (
                   <div className="mt-4 p-4 rounded-lg bg-red-900/20 text-red-400 border border-red-700">
@@ -716,11 +921,13 @@ export function Home() {
                 </div>
               )}
 
-              {selectedFile && !error && (
+              {inputMode === 'upload' && selectedFile && !isMidiFile(selectedFile) && !error && (
                 <div className="mt-8">
                   <WaveformVisualizer
                     audioFile={selectedFile}
-                    onTimeUpdate={setCurrentTime}
+                    onTimeUpdate={handlePlaybackTime}
+                    onPlayingChange={handlePlayingChange}
+                    seekRequest={seekRequest}
                   />
                 </div>
               )}
@@ -729,29 +936,88 @@ export function Home() {
             {isProcessing && (
               <div className="text-center py-8 bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400 mx-auto"></div>
-                <p className="mt-4 text-gray-300">Analyzing and transcribing your music...</p>
-              </div>
-            )}
-
-            {analysisResult?.truncated && (
-                <div className="bg-yellow-900/20 text-yellow-400 p-4 rounded-lg flex items-start gap-3 border border-yellow-700">
-                <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
-                <p>
-                  Your audio file was longer than 1 minute. We've analyzed only the first minute to ensure optimal transcription quality.
+                <p className="mt-4 text-gray-300">
+                  {progress ? STAGE_LABELS[progress.stage] : 'Analyzing and transcribing your music...'}
+                  {progress?.chunkCount && progress.chunkCount > 1 && (
+                    <span className="text-gray-400"> (part {(progress.chunk ?? 0) + 1} of {progress.chunkCount})</span>
+                  )}
                 </p>
+                <div className="mt-4 mx-auto max-w-md px-8">
+                  <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-blue-400 to-purple-400 transition-all duration-300"
+                      style={{ width: `${progress?.percent ?? 0}%` }}
+                    />
+                  </div>
+                  <p className="mt-2 text-sm text-gray-400">{progress?.percent ?? 0}%</p>
+                </div>
               </div>
             )}
 
             {notation && analysisResult && (
               <div className="bg-white/5 backdrop-blur-lg rounded-2xl p-8 border border-white/10">
-                <h2 className="text-2xl font-semibold mb-6 flex items-center gap-2">
-                  <Music className="w-6 h-6" />
-                  Your Sheet Music
-                </h2>
+                <div className="mb-6 flex items-center justify-between gap-4">
+                  <h2 className="text-2xl font-semibold flex items-center gap-2">
+                    <Music className="w-6 h-6" />
+                    Your Sheet Music
+                    {isProcessing && (
+                      <span className="ml-2 text-sm font-normal text-gray-400">(partial - still transcribing)</span>
+                    )}
+                    {isRecording && (
+                      <span className="ml-2 text-sm font-normal text-red-400">(live)</span>
+                    )}
+                  </h2>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleUndo}
+                      disabled={!canEdit || !undoLabel}
+                      title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                      aria-label="Undo"
+                      className="flex items-center px-3 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={handleRedo}
+                      disabled={!canEdit || !redoLabel}
+                      title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                      aria-label="Redo"
+                      className="flex items-center px-3 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50"
+                    >
+                      <Redo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={handleDownloadMidi}
+                      disabled={isProcessing || isRecording}
+                      className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                    >
+                      <Download className="w-4 h-4" />
+                      MIDI
+                    </button>
+                    <button
+                      onClick={handleDownloadMusicXml}
+                      disabled={isProcessing || isRecording}
+                      className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                    >
+                      <Download className="w-4 h-4" />
+                      MusicXML
+                    </button>
+                  </div>
+                </div>
                 <div className="mb-6 grid grid-cols-2 gap-4 text-gray-300">
                   <div className="p-4 rounded-lg bg-white/5">
                     <h3 className="text-lg font-semibold mb-2">Key</h3>
                     <p>{analysisResult.key}</p>
+                    {analysisResult.keySegments && analysisResult.keySegments.length > 0 && (
+                      <ul className="mt-1 space-y-0.5 text-sm text-gray-400">
+                        {analysisResult.keySegments.map(segment => (
+                          <li key={segment.startTime}>
+                            {formatTimestamp(segment.startTime)} {segment.key} (r = {segment.score.toFixed(2)})
+                            {segment.isAmbiguous && <span className="text-amber-300"> - or {segment.alternative}?</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                   <div className="p-4 rounded-lg bg-white/5">
                     <h3 className="text-lg font-semibold mb-2">Tempo</h3>
@@ -760,15 +1026,60 @@ export function Home() {
                   <div className="p-4 rounded-lg bg-white/5">
                     <h3 className="text-lg font-semibold mb-2">Time Signature</h3>
                     <p>{analysisResult.timeSignature}</p>
+                    {analysisResult.meterConfidence !== undefined && (
+                      <p className="text-sm text-gray-400">{Math.round(analysisResult.meterConfidence * 100)}% confidence</p>
+                    )}
                   </div>
                   <div className="p-4 rounded-lg bg-white/5">
                     <h3 className="text-lg font-semibold mb-2">Notes Detected</h3>
                     <p>{analysisResult.notes.length}</p>
+                    {doubtfulNoteCount > 0 && (
+                      <p className="text-sm text-amber-300">{doubtfulNoteCount} uncertain - highlighted in the sheet</p>
+                    )}
                   </div>
                 </div>
+                <HandSplitControls
+                  measureCount={measureCount}
+                  overrides={handSplits}
+                  onChange={handleHandSplitsChange}
+                  disabled={isProcessing || isRecording}
+                />
+                <PianoRoll
+                  notes={analysisResult.notes}
+                  beats={analysisResult.beats}
+                  onChange={handleNotesChange}
+                  disabled={isProcessing || isRecording}
+                />
                   {/* Ensure parent div allows text color to inherit or set explicitly */}
                   <div className="min-h-[700px] text-white overflow-x-auto flex flex-col items-center justify-center"> {/* Increased height & centered content */}
-                  <MusicSheet notation={notation} className="mt-4 w-full max-w-4xl" />
+                  <div className="flex self-end rounded-lg bg-white/5 p-1 text-sm">
+                    {(['abc', 'musicxml'] as const).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => setSheetFormat(format)}
+                        className={`px-3 py-1 rounded-md transition-colors ${
+                          sheetFormat === format ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-blue-400'
+                        }`}
+                      >
+                        {format === 'abc' ? 'Quick view' : 'Engraved'}
+                      </button>
+                    ))}
+                  </div>
+                  <MusicSheet
+                    notation={sheetFormat === 'musicxml' ? musicXml : notation}
+                    format={sheetFormat}
+                    className="mt-4 w-full max-w-4xl"
+                    selection={sheetSelection}
+                    playing={playbackCursor}
+                    onNoteSelect={handleSheetNoteSelect}
+                    onSheetKeyDown={handleSheetKeyDown}
+                  />
+                  {sheetFormat === 'abc' && canEdit && (
+                    <p className="text-center text-xs text-gray-400">
+                      Click a note to edit it: ↑/↓ pitch (Shift for an octave), 3-7 sixteenth to whole note, # or b
+                      accidental, T tie, Delete to remove it, ←/→ to move to the next one.
+                    </p>
+                  )}
                 </div>
               </div>
             )}
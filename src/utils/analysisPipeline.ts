@@ -0,0 +1,594 @@
+import { PitchDetector } from 'pitchy';
+import { magnitudeSpectrum } from './spectrum';
+import { estimatePitches, midiToFrequency, partialShare } from './multiPitch';
+import { detectOnsets, nearestOnset, OnsetEnvelope } from './onsetDetection';
+import { DEFAULT_TEMPO, tempoCurveFromBeats, trackBeats } from './beatTracking';
+import { detectKey, detectKeySegments } from './keyDetection';
+import { detectMeter } from './meterDetection';
+import { detectPedal, releaseKeys, PedalEvidence } from './pedalDetection';
+import { splitHands } from './handSeparation';
+import type { AnalysisError, AnalysisErrorKind, AudioAnalysisResult, Note } from './audioAnalysis';
+import type { AnalysisChunk } from './chunkedAnalysis';
+import { beatQuarters, noteNameToMidi } from './musicTheory';
+import { spellNotes } from './pitchSpelling';
+
+// --- Constants ---
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']; // Detection names; finalizeAnalysis respells for the key
+const MIN_NOTE_DURATION_SECONDS = 0.12; // Minimum note length to register
+const ONSET_MATCH_TOLERANCE_SECONDS = 0.05; // How close a note start must be to an onset to belong to it
+const PROGRESS_INTERVAL_FRAMES = 200; // How often the frame loop reports progress
+const MIN_SILENCE_RMS = 0.001; // About -60 dBFS - frames quieter than this are never pitched
+const MAX_SILENT_PEAK = 0.005; // About -46 dBFS - a recording that never gets louder holds only noise floor
+const LOUDNESS_RANGE_DB = 24; // Frames this far above the silence threshold count as fully loud
+const MAX_CENTS_DEVIATION = 50; // Pitches further from equal temperament are a different note
+// How much each kind of evidence counts towards a note's confidence
+const CONFIDENCE_WEIGHTS = { clarity: 0.35, stability: 0.25, loudness: 0.2, tuning: 0.2 };
+
+// --- Progress Reporting ---
+export type AnalysisStage = 'decoding' | 'mixdown' | 'onsets' | 'notes' | 'tempo' | 'key' | 'timeSignature' | 'finalizing';
+type ChunkStage = 'mixdown' | 'onsets' | 'notes'; // Stages repeated for every chunk
+type GlobalStage = Exclude<AnalysisStage, ChunkStage>; // Stages that run once
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  percent: number; // Overall progress, 0-100
+  chunk?: number; // 0-based index of the chunk being analysed (per-chunk stages only)
+  chunkCount?: number;
+}
+
+// Share of the overall progress bar ([start, end] in percent) for the one-off stages...
+const GLOBAL_STAGE_RANGES: Record<GlobalStage, [number, number]> = {
+  decoding: [0, 5],
+  tempo: [95, 96],
+  key: [96, 97],
+  timeSignature: [97, 98],
+  finalizing: [98, 100],
+};
+// ...the slice of the bar shared by all chunks...
+const CHUNKS_RANGE: [number, number] = [5, 95];
+// ...and each per-chunk stage's share of one chunk. Note detection dominates the run time.
+const CHUNK_STAGE_RANGES: Record<ChunkStage, [number, number]> = {
+  mixdown: [0, 0.03],
+  onsets: [0.03, 0.15],
+  notes: [0.15, 1],
+};
+
+function isChunkStage(stage: AnalysisStage): stage is ChunkStage {
+  return stage in CHUNK_STAGE_RANGES;
+}
+
+export function stageProgress(stage: AnalysisStage, fraction = 0, chunk?: AnalysisChunk): AnalysisProgress {
+  const clamped = Math.min(1, Math.max(0, fraction));
+
+  if (!isChunkStage(stage)) {
+    const [start, end] = GLOBAL_STAGE_RANGES[stage];
+    return { stage, percent: Math.round(start + (end - start) * clamped) };
+  }
+
+  const index = chunk?.index ?? 0;
+  const count = chunk?.count ?? 1;
+  const [stageStart, stageEnd] = CHUNK_STAGE_RANGES[stage];
+  const chunkFraction = (index + stageStart + (stageEnd - stageStart) * clamped) / count;
+  const [start, end] = CHUNKS_RANGE;
+  return {
+    stage,
+    percent: Math.round(start + (end - start) * chunkFraction),
+    chunk: index,
+    chunkCount: count,
+  };
+}
+
+// --- Analysis Pipeline ---
+// Runs entirely on raw channel data so it can execute inside a Web Worker.
+
+// What the detectors found in a recording (or one chunk of it), in recording time
+export interface Detections {
+  notes: Note[]; // As detected: notes under the sustain pedal still include their ringing
+  onsets: number[]; // Ascending
+  envelope: OnsetEnvelope; // Onset strength (raw spectral flux), for beat tracking
+  pedalEvidence: PedalEvidence; // Damping on the same raw scale as the envelope
+  peak: number; // Loudest sample, 0-1 - tells silence from sound without notes
+}
+
+const ANALYSIS_ERROR_MESSAGES: Record<AnalysisErrorKind, string> = {
+  unsupportedFormat: "This file type isn't supported. Upload an audio recording (MP3 or WAV) or a MIDI file.",
+  decodeFailed:
+    "The audio couldn't be decoded - the file may be damaged, or use an encoding this browser can't read. Try exporting it again as WAV or MP3.",
+  silence:
+    'The recording is silent. Check that the right input was recorded and its level isn\'t turned all the way down, then try again.',
+  noPitchedContent:
+    'No piano notes were found in the recording. Transcription works on solo piano - try a recording with less background noise, or with the microphone closer to the piano.',
+};
+
+/**
+ * Describes why an analysis has no transcription
+ * @param kind What went wrong
+ * @returns The error, with a message for the user
+ */
+export function analysisError(kind: AnalysisErrorKind): AnalysisError {
+  return { kind, message: ANALYSIS_ERROR_MESSAGES[kind] };
+}
+
+/**
+ * The result of an analysis that found nothing to transcribe
+ * @param kind What went wrong
+ * @returns A result with no notes, carrying the error
+ */
+export function failedAnalysis(kind: AnalysisErrorKind): AudioAnalysisResult {
+  return { tempo: DEFAULT_TEMPO, key: 'N/A', timeSignature: '4/4', notes: [], error: analysisError(kind) };
+}
+
+/**
+ * Detects onsets and notes in one chunk of a recording
+ * @param channels PCM per channel for the chunk's window
+ * @param sampleRate Sample rate of the audio
+ * @param chunk The chunk being analysed; its window start offsets all times
+ * @param onProgress Progress callback
+ * @returns The chunk's detections, in absolute (recording) time
+ */
+export function analyzeChunk(
+  channels: Float32Array[],
+  sampleRate: number,
+  chunk: AnalysisChunk,
+  onProgress: (progress: AnalysisProgress) => void = () => {}
+): Detections {
+  // Mix down to mono
+  onProgress(stageProgress('mixdown', 0, chunk));
+  const monoBufferData = mixDownToMono(channels);
+  if (!monoBufferData) {
+    throw new Error("Failed to process audio channels into mono.");
+  }
+
+  // --- Onset Detection (onsets segment notes, the envelope drives beat tracking) ---
+  onProgress(stageProgress('onsets', 0, chunk));
+  const { onsets, envelope, dampingEnvelope, fluxScale, frameRate, envelopeStart } = detectOnsets(monoBufferData, sampleRate);
+  // Each chunk's envelopes are scaled to its own loudest attack; back on the raw scale they
+  // stitch without jumps, and finalizeAnalysis normalises them once over the whole recording
+  const rawFlux = (values: Float32Array) => values.map(value => value * fluxScale);
+
+  // --- Pitch Detection ---
+  onProgress(stageProgress('notes', 0, chunk));
+  const { notes, resonance } = detectNotes(monoBufferData, sampleRate, onsets, fraction =>
+    onProgress(stageProgress('notes', fraction, chunk))
+  );
+
+  const offset = chunk.windowStart;
+  return {
+    notes: notes.map(note => ({ ...note, startTime: note.startTime + offset })),
+    onsets: onsets.map(onset => onset + offset),
+    envelope: { values: rawFlux(envelope), frameRate, startTime: envelopeStart + offset },
+    pedalEvidence: {
+      damping: { values: rawFlux(dampingEnvelope), frameRate, startTime: envelopeStart + offset },
+      resonance: { ...resonance, startTime: resonance.startTime + offset },
+    },
+    peak: monoBufferData.reduce((loudest, sample) => Math.max(loudest, Math.abs(sample)), 0),
+  };
+}
+
+/**
+ * Derives tempo, key, meter and pedalling from the stitched detections and cleans up the notes
+ * @param detections Everything detected so far (not modified)
+ * @param duration Length of the analysed audio in seconds
+ * @param onProgress Progress callback (omitted for partial results)
+ * @returns The analysis result; a failed one (silence, no pitched content) when no notes were found
+ */
+export function finalizeAnalysis(
+  { notes: detectedNotes, onsets, envelope, pedalEvidence, peak }: Detections,
+  duration: number,
+  onProgress: (progress: AnalysisProgress) => void = () => {}
+): AudioAnalysisResult {
+  // Work on copies - the merge pass below edits durations in place
+  const notes = detectedNotes.map(note => ({ ...note }));
+
+  if (notes.length === 0) {
+    const kind = peak < MAX_SILENT_PEAK ? 'silence' : 'noPitchedContent';
+    console.warn(`[finalizeAnalysis] No notes in ${duration.toFixed(1)}s of audio (peak ${peak.toFixed(4)}): ${kind}.`);
+    return failedAnalysis(kind);
+  }
+
+  // --- Feature Detection ---
+  // Onset strength is normalised here, once, so the loudest attack of the recording is 1
+  const strongest = maxValue(envelope.values);
+  const normalize = (flux: OnsetEnvelope): OnsetEnvelope => ({
+    ...flux,
+    values: Float32Array.from(flux.values, value => (strongest > 0 ? value / strongest : 0)),
+  });
+  onProgress(stageProgress('tempo'));
+  const tracked = trackBeats(normalize(envelope));
+  const { beats } = tracked;
+  onProgress(stageProgress('key'));
+  const key = detectKey(notes);
+  const keySegments = detectKeySegments(notes);
+  onProgress(stageProgress('timeSignature'));
+  const { timeSignature, downbeat, confidence: meterConfidence } = detectMeter(notes, beats);
+  // Tracked beats are the meter's beats; tempos are reported in quarter notes
+  const quartersPerBeat = beatQuarters(timeSignature);
+  const tempo = tracked.tempo * quartersPerBeat;
+  const tempoCurve = tempoCurveFromBeats(beats, quartersPerBeat);
+
+  onProgress(stageProgress('finalizing'));
+
+  // Filter notes again if needed (already filtered in detectNotes)
+  const finalNotes = notes.filter(note => {
+    // Filter out very short notes (likely noise)
+    if (note.duration < MIN_NOTE_DURATION_SECONDS) return false;
+    
+    // Filter out notes with unusual/invalid pitches
+    if (!note.pitch || typeof note.pitch !== 'string' || note.pitch.trim() === '') return false;
+    
+    return true;
+  });
+
+  if (finalNotes.length === 0) {
+    console.warn('[finalizeAnalysis] No notes left after filtering.');
+    return failedAnalysis('noPitchedContent');
+  }
+
+  // Sort notes by start time for cleaner processing
+  finalNotes.sort((a, b) => a.startTime - b.startTime);
+
+  // Merge notes that are very close to each other (likely the same note)
+  const mergedNotes: Note[] = [];
+  for (let i = 0; i < finalNotes.length; i++) {
+    const currentNote = finalNotes[i];
+    
+    // If this is the last note or the next note is clearly separate
+    if (i === finalNotes.length - 1 || 
+        finalNotes[i + 1].startTime - (currentNote.startTime + currentNote.duration) > 0.05) {
+      mergedNotes.push(currentNote);
+      continue;
+    }
+    
+    // Check if the next note can be merged (same pitch, very close timing).
+    // A note that starts on a detected onset is a new keystroke and is never merged.
+    const nextNote = finalNotes[i + 1];
+    if (nextNote.pitch === currentNote.pitch && 
+        nextNote.startTime - (currentNote.startTime + currentNote.duration) < 0.05 &&
+        nearestOnset(onsets, nextNote.startTime, ONSET_MATCH_TOLERANCE_SECONDS) === null) {
+      // Merge by extending the duration of this note and skipping the next one
+      currentNote.duration = nextNote.startTime + nextNote.duration - currentNote.startTime;
+      currentNote.confidence = Math.min(currentNote.confidence ?? 1, nextNote.confidence ?? 1); // As sure as its weaker part
+      i++; // Skip the next note
+      mergedNotes.push(currentNote);
+    } else {
+      mergedNotes.push(currentNote);
+    }
+  }
+
+  // Under the pedal, notes are written to their key release rather than their ringing
+  const hands = splitHands(mergedNotes, { tempo, beats, downbeat, timeSignature });
+  const pedal = detectPedal(hands, { ...pedalEvidence, damping: normalize(pedalEvidence.damping) });
+  const releasedNotes = releaseKeys(hands, pedal);
+
+  return {
+    tempo: Math.max(60, Math.round(tempo)),
+    key,
+    timeSignature: timeSignature || "4/4",
+    keySegments,
+    notes: spellNotes(releasedNotes, key, keySegments), // Sharps-only detection names become key-aware spellings
+    beats,
+    tempoCurve,
+    downbeat,
+    meterConfidence,
+    pedal,
+  };
+}
+
+// --- Helper Functions ---
+
+function mixDownToMono(channels: Float32Array[]): Float32Array | null {
+    if (channels.length === 0) return null;
+    const numChannels = channels.length;
+    const length = channels[0].length;
+    const monoData = new Float32Array(length);
+
+    if (numChannels === 1) {
+        monoData.set(channels[0]);
+    } else {
+        for (let i = 0; i < length; i++) {
+            let sum = 0;
+            for (let j = 0; j < numChannels; j++) {
+                sum += channels[j][i];
+            }
+            monoData[i] = sum / numChannels;
+        }
+    }
+    return monoData;
+}
+
+// What one frame shows of one pitch
+interface PitchEvidence {
+    salience: number; // Spectral salience (0 when only the time-domain detector found it)
+    clarity: number; // 0-1: spectral clarity, or pitchy's clarity for the time-domain detector
+    cents: number; // Deviation from equal temperament
+}
+
+interface TrackedPitch {
+    startTime: number; // Time of the first frame the pitch was seen (snapped to its onset)
+    lastSeenTime: number; // Time of the most recent frame containing the pitch
+    frameCount: number; // Number of frames the pitch was present in
+    missedFrames: number; // Consecutive frames the pitch has been absent
+    gapFrames: number; // Frames inside the note where the pitch dropped out
+    velocity: number; // Maximum velocity seen while the pitch was active
+    salienceHistory: number[]; // Recent spectral salience, used to spot re-attacks
+    // An onset while the pitch sounds, waiting for its salience to rise over the level before it
+    pendingOnset?: { time: number; baseline: number; framesLeft: number };
+    // Sums over the frames the pitch was seen in, for the note's confidence
+    clarityTotal: number;
+    centsTotal: number; // Absolute deviations
+    loudnessTotal: number; // 0-1 per frame, above the silence threshold
+}
+
+/**
+ * Rates how sure the detector is of a note
+ * @param tracked The note's accumulated evidence
+ * @returns 0-1, from pitch clarity, how steadily the pitch was seen, loudness and tuning
+ */
+function noteConfidence(tracked: TrackedPitch): number {
+    const seen = tracked.frameCount;
+    const clarity = tracked.clarityTotal / seen;
+    const stability = seen / (seen + tracked.gapFrames);
+    const loudness = tracked.loudnessTotal / seen;
+    const tuning = 1 - Math.min(1, tracked.centsTotal / seen / MAX_CENTS_DEVIATION);
+    // Weighted geometric mean: one poor sign is enough to doubt a note
+    return (
+        clarity ** CONFIDENCE_WEIGHTS.clarity *
+        stability ** CONFIDENCE_WEIGHTS.stability *
+        loudness ** CONFIDENCE_WEIGHTS.loudness *
+        tuning ** CONFIDENCE_WEIGHTS.tuning
+    );
+}
+
+/**
+ * Tracks the pitches sounding through a mono signal
+ * @param monoBufferData Mono audio samples
+ * @param sampleRate Sample rate of the audio
+ * @param onsets Onset times, ascending - notes start at them
+ * @param onProgress Progress callback, 0-1
+ * @returns Notes in start order, and per frame the share of the sound off their partials
+ *   (sympathetic resonance, for pedal detection)
+ */
+function detectNotes(
+    monoBufferData: Float32Array,
+    sampleRate: number,
+    onsets: number[] = [],
+    onProgress?: (fraction: number) => void
+): { notes: Note[]; resonance: OnsetEnvelope } {
+    const notes: Note[] = [];
+    const resonance: number[] = [];
+    const frameSize = 4096; // Spectrum frame - long enough to resolve bass partials
+    const fftSize = 8192; // Zero-padded FFT size for finer partial positions
+    const pitchFrameSize = 2048; // Centre slice used for the predominant-pitch detector
+    const hopSize = 441; // ~10ms step at 44.1kHz
+    const hopSeconds = hopSize / sampleRate;
+    const detector = PitchDetector.forFloat32Array(pitchFrameSize);
+
+    const overallRMS = calculateRMS(monoBufferData);
+    // Dynamic threshold based on overall volume, floored so that a window of pure room
+    // noise (common in short live chunks) isn't treated as music
+    const silenceThreshold = Math.max(overallRMS * 0.08, MIN_SILENCE_RMS);
+
+    const clarityThreshold = 0.88; // Stricter clarity requirement for pitch detection
+    const minConsecutiveFrames = 3; // Require pitch to be present for ~30ms to register as a note
+    const maxGapFrames = 2; // Tolerate short dropouts of a sustained pitch (estimator misses)
+    const MIN_NOTE_DURATION_SECONDS = 0.07; // Minimum note length to register
+    const reattackRatio = 1.3; // Salience jump at an onset that marks a repeated keystroke
+    // Frames between the attack entering the window and reaching its centre
+    const attackFrames = Math.ceil(frameSize / 2 / hopSize);
+    const overtoneIntervals = [12, 19, 24, 28, 31, 36]; // Semitones from a pitch up to its 2nd-8th partials
+
+    // Every pitch that is currently sounding, keyed by note name. Several may overlap.
+    const activePitches = new Map<string, TrackedPitch>();
+
+    let nextOnsetIndex = 0;
+
+    const startPitch = (pitch: string, startTime: number, evidence: PitchEvidence, velocity: number, loudness: number, frameCount = 1) => {
+        activePitches.set(pitch, {
+            startTime,
+            lastSeenTime: startTime,
+            frameCount,
+            missedFrames: 0,
+            gapFrames: 0,
+            velocity,
+            salienceHistory: [evidence.salience],
+            clarityTotal: evidence.clarity * frameCount,
+            centsTotal: Math.abs(evidence.cents) * frameCount,
+            loudnessTotal: loudness * frameCount,
+        });
+    };
+
+    // Salience of a sounding pitch before an attack entered the analysis window; null if unknown
+    const preAttackSalience = (tracked: TrackedPitch): number | null => {
+        const before = tracked.salienceHistory.slice(0, -attackFrames).filter(value => value > 0);
+        return before.length > 0 ? Math.min(...before) : null;
+    };
+
+    // A new note struck on an overtone of a sounding pitch, or with an overtone on it, shares
+    // partials with that pitch and raises its salience too, which is not a keystroke of its own
+    const isOvertoneStruck = (pitch: string, onset: number, framePitches: Map<string, PitchEvidence>): boolean => {
+        const midi = noteNameToMidi(pitch);
+        if (midi === null) return false;
+        return [...framePitches.keys()].some(other => {
+            const otherMidi = noteNameToMidi(other);
+            if (otherMidi === null || !overtoneIntervals.includes(Math.abs(otherMidi - midi))) return false;
+            const tracked = activePitches.get(other);
+            return !tracked || tracked.startTime >= onset - hopSeconds;
+        });
+    };
+
+    const finishPitch = (pitch: string, tracked: TrackedPitch) => {
+        if (tracked.frameCount < minConsecutiveFrames) return;
+        const duration = tracked.lastSeenTime + hopSeconds - tracked.startTime;
+        if (duration >= MIN_NOTE_DURATION_SECONDS) {
+            notes.push({ pitch, startTime: tracked.startTime, duration, velocity: tracked.velocity, confidence: noteConfidence(tracked) });
+        }
+    };
+
+    const lastFrameStart = monoBufferData.length - frameSize;
+    for (let i = 0; i <= lastFrameStart; i += hopSize) {
+        if (onProgress && (i / hopSize) % PROGRESS_INTERVAL_FRAMES === 0) onProgress(i / lastFrameStart);
+
+        const frame = monoBufferData.subarray(i, i + frameSize);
+        const time = (i + (frameSize - pitchFrameSize) / 2) / sampleRate; // Start of the centre slice
+        const frameRMS = calculateRMS(frame); // Loudness of this frame
+
+        const frameCentre = (i + frameSize / 2) / sampleRate;
+        // Pitch name -> what this frame shows of it
+        const framePitches = new Map<string, PitchEvidence>();
+        const loudness = Math.min(1, Math.max(0, (20 * Math.log10(frameRMS / silenceThreshold)) / LOUDNESS_RANGE_DB));
+
+        // Only attempt pitch detection if the frame is loud enough
+        if (frameRMS > silenceThreshold) {
+            // Polyphonic estimate: every harmonic series that stands out in the spectrum
+            const spectrum = magnitudeSpectrum(frame, fftSize);
+            // Established notes carry on at a lower salience than a new pitch needs to start
+            const sustainedMidis = [...activePitches]
+                .filter(([, tracked]) => tracked.frameCount >= minConsecutiveFrames)
+                .map(([pitch]) => noteNameToMidi(pitch))
+                .filter((midi): midi is number => midi !== null);
+            const candidates = estimatePitches(spectrum, sampleRate, fftSize, { windowSize: frameSize, sustainedMidis });
+            candidates.forEach(candidate => {
+                const noteName = frequencyToNoteName(midiToFrequency(candidate.midi));
+                if (noteName) framePitches.set(noteName, { salience: candidate.salience, clarity: candidate.clarity, cents: candidate.cents });
+            });
+            // Sound off the partials of the detected notes: undamped strings and earlier notes ringing on
+            resonance.push(1 - partialShare(spectrum, candidates.map(candidate => candidate.midi), sampleRate, fftSize));
+
+            // The time-domain detector fills in quiet single notes the spectral estimate
+            // misses. It is not consulted for chords: on those it locks onto the common
+            // period of the chord tones and reports a sub-harmonic that isn't played.
+            if (framePitches.size === 0) {
+                const centre = frame.subarray((frameSize - pitchFrameSize) / 2, (frameSize + pitchFrameSize) / 2);
+                const [frequency, clarity] = detector.findPitch(centre, sampleRate);
+                const noteName = frequencyToNoteName(frequency);
+                if (noteName && clarity >= clarityThreshold) {
+                    framePitches.set(noteName, { salience: 0, clarity, cents: centsFromEqualTemperament(frequency) });
+                }
+            }
+        } else {
+            resonance.push(0);
+        }
+
+        // Calculate velocity based on frame loudness relative to overall loudness
+        const velocity = Math.min(127, Math.max(0, Math.round((frameRMS / (overallRMS + 1e-6)) * 90 + 30)));
+
+        // Latest onset whose attack has reached the centre of this frame
+        let frameOnset: number | null = null;
+        while (nextOnsetIndex < onsets.length && onsets[nextOnsetIndex] <= frameCentre) {
+            frameOnset = onsets[nextOnsetIndex++];
+        }
+
+        // A sounding pitch was struck again if its salience clearly rises above where it was
+        // before the attack. The rise takes a few frames after the onset reaches the frame
+        // centre, so the onset stays pending for as long as the attack takes to fill the window.
+        if (frameOnset !== null) {
+            const onset = frameOnset;
+            activePitches.forEach(tracked => {
+                const baseline = preAttackSalience(tracked);
+                if (onset > tracked.startTime + hopSeconds && baseline !== null) {
+                    tracked.pendingOnset = { time: onset, baseline, framesLeft: attackFrames };
+                }
+            });
+        }
+
+        // --- Per-pitch tracking ---
+        framePitches.forEach((evidence, pitch) => {
+            const { salience } = evidence;
+            const tracked = activePitches.get(pitch);
+            if (!tracked) {
+                // New pitch: start it at its attack if one was detected nearby
+                const onset = nearestOnset(onsets, frameCentre, frameSize / 2 / sampleRate);
+                startPitch(pitch, onset ?? time, evidence, velocity, loudness);
+                return;
+            }
+
+            const pending = tracked.pendingOnset;
+            if (pending && salience > pending.baseline * reattackRatio && !isOvertoneStruck(pitch, pending.time, framePitches)) {
+                // Repeated keystroke on a sounding pitch: close the old note at the onset
+                tracked.lastSeenTime = pending.time - hopSeconds;
+                finishPitch(pitch, tracked);
+                startPitch(pitch, pending.time, evidence, velocity, loudness, minConsecutiveFrames);
+                return;
+            }
+
+            tracked.frameCount++;
+            tracked.gapFrames += tracked.missedFrames; // The pitch came back: those frames were a dropout
+            tracked.missedFrames = 0;
+            tracked.lastSeenTime = time;
+            tracked.velocity = Math.max(tracked.velocity, velocity);
+            tracked.clarityTotal += evidence.clarity;
+            tracked.centsTotal += Math.abs(evidence.cents);
+            tracked.loudnessTotal += loudness;
+            tracked.salienceHistory.push(salience);
+            if (tracked.salienceHistory.length > attackFrames * 2) tracked.salienceHistory.shift();
+        });
+
+        activePitches.forEach((tracked, pitch) => {
+            if (tracked.pendingOnset && --tracked.pendingOnset.framesLeft <= 0) tracked.pendingOnset = undefined;
+            if (framePitches.has(pitch)) return;
+            tracked.missedFrames++;
+            // A pitch that never became stable is dropped on its first miss
+            if (tracked.frameCount < minConsecutiveFrames || tracked.missedFrames > maxGapFrames) {
+                finishPitch(pitch, tracked);
+                activePitches.delete(pitch);
+            }
+        });
+    }
+
+    // --- End of Loop ---
+    // Close every pitch that was still sounding at the end of the audio
+    activePitches.forEach((tracked, pitch) => finishPitch(pitch, tracked));
+
+    notes.sort((a, b) => a.startTime - b.startTime);
+    console.log(`Detected ${notes.length} notes.`); // Log final count
+    return { notes, resonance: { values: resonance, frameRate: sampleRate / hopSize, startTime: frameSize / 2 / sampleRate } };
+}
+
+function calculateRMS(buffer: Float32Array): number {
+  // ... (implementation remains the same)
+  let sumOfSquares = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    sumOfSquares += buffer[i] * buffer[i];
+  }
+  // Add epsilon to prevent division by zero / NaN for complete silence
+  return Math.sqrt(sumOfSquares / (buffer.length || 1));
+}
+
+/**
+ * Largest of a list of values (a loop - spreading a long envelope into Math.max overflows the stack)
+ * @returns The maximum, 0 for an empty list
+ */
+function maxValue(values: ArrayLike<number>): number {
+  let max = 0;
+  for (let i = 0; i < values.length; i++) {
+    max = Math.max(max, values[i]);
+  }
+  return max;
+}
+
+/**
+ * How far a frequency lies from the nearest equal-tempered pitch
+ * @returns Cents, -50 to 50
+ */
+function centsFromEqualTemperament(frequency: number): number {
+  const midiNumber = 12 * Math.log2(frequency / 440) + 69;
+  return 100 * (midiNumber - Math.round(midiNumber));
+}
+
+function frequencyToNoteName(frequency: number): string {
+ // ... (implementation remains the same, including deviation check)
+  if (!frequency || frequency <= 10) return '';
+  const midiNumber = 12 * Math.log2(frequency / 440) + 69;
+  const roundedMidi = Math.round(midiNumber);
+  if (roundedMidi < 21 || roundedMidi > 108) return ''; // Standard piano range check
+
+  const octave = Math.floor(roundedMidi / 12) - 1;
+  const noteIndex = roundedMidi % 12;
+
+  // Optional: Check deviation
+  if (Math.abs(centsFromEqualTemperament(frequency)) > MAX_CENTS_DEVIATION) { // Allow up to a quarter tone deviation
+    // console.log(`Skipping note due to large deviation (${centsFromEqualTemperament(frequency).toFixed(1)} cents): ${frequency.toFixed(1)}Hz`);
+    return '';
+  }
+  return `${NOTE_NAMES[noteIndex]}${octave}`;
+}
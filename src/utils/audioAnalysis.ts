@@ -1,137 +1,101 @@
-import { PitchDetector } from 'pitchy';
 import { supabase } from '../lib/supabase'; // Ensure Supabase is initialized correctly
+import { failedAnalysis, stageProgress, AnalysisProgress } from './analysisPipeline';
+import { planChunks } from './chunkedAnalysis';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from '../workers/analysisWorker';
+
+export type { AnalysisProgress, AnalysisStage } from './analysisPipeline';
+export { analysisError } from './analysisPipeline';
+
+const AUDIO_EXTENSIONS = /\.(mp3|wav|ogg|oga|opus|flac|m4a|aac|webm)$/i; // Besides files typed audio/* or video/*
 
 // --- Interfaces ---
 export interface Note {
   pitch: string; // e.g., "C4"
   startTime: number; // seconds
-  duration: number; // seconds
+  duration: number; // seconds, until the key comes up - ringing on under the sustain pedal is not counted
   velocity: number; // MIDI velocity (0-127)
+  confidence?: number; // 0-1: how sure the detector was of the note; absent when it wasn't detected from audio
+}
+
+// Local tempo at one beat
+export interface TempoPoint {
+  time: number; // Seconds
+  bpm: number; // Quarter notes per minute
+}
+
+// A stretch of the piece in one key
+export interface KeySegment {
+  startTime: number; // Seconds
+  key: string; // e.g. "G Major"
+  score: number; // Correlation of the stretch's pitch content with the key's profile, -1 to 1
+  isAmbiguous: boolean; // Another key fits almost as well - typically the relative major or minor
+  alternative?: string; // That key, when ambiguous
+}
+
+// The sustain pedal going down or coming up
+export interface PedalEvent {
+  time: number; // Seconds
+  isDown: boolean;
+}
+
+// Why an analysis has no transcription
+export type AnalysisErrorKind =
+  | 'unsupportedFormat' // Not an audio file
+  | 'decodeFailed' // Audio the browser couldn't decode - damaged, or an encoding it lacks
+  | 'silence' // Nothing above the noise floor
+  | 'noPitchedContent'; // Sound, but no notes survived detection and filtering
+
+export interface AnalysisError {
+  kind: AnalysisErrorKind;
+  message: string; // What went wrong and what to try, for the user
 }
 
 export interface AudioAnalysisResult {
-  tempo: number; // BPM
-  key: string; // e.g., "C Major", "A Minor"
+  tempo: number; // Quarter notes per minute - the typical tempo of the piece
+  key: string; // e.g., "C Major", "A Minor" - the key of the piece as a whole
+  keySegments?: KeySegment[]; // Key regions in time order, when the key was followed through the piece
   timeSignature: string; // e.g., "4/4"
   notes: Note[];
-  truncated: boolean; // Was the audio truncated?
+  beats?: number[]; // Tracked quarter-note beat times in seconds, ascending; notation follows them when present
+  tempoCurve?: TempoPoint[]; // Tempo at each tracked beat
+  downbeat?: number; // Index into beats of the first downbeat; notes before it are a pickup
+  meterConfidence?: number; // 0-1: how clearly the meter and downbeats showed in the performance
+  pedal?: PedalEvent[]; // Sustain pedal presses and releases in time order, alternating from a press
+  error?: AnalysisError; // Set when there is no transcription; notes is then empty
 }
 
-// --- Constants ---
-const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-const MAX_DURATION_SECONDS = 60;
-const MIN_NOTE_DURATION_SECONDS = 0.12; // Minimum note length to register
-
-// Krumhansl-Schmuckler Key Profiles (normalized)
-const majorProfile = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
-const minorProfile = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
-
-function normalizeProfile(profile: number[]): number[] {
-  const sum = profile.reduce((acc, val) => acc + val, 0);
-  return profile.map(val => (sum === 0 ? 0 : val / sum)); // Avoid division by zero
+export interface AnalyzeAudioOptions {
+  signal?: AbortSignal; // Aborting terminates the running analysis and rejects with an AbortError
+  onProgress?: (progress: AnalysisProgress) => void; // Streamed stage/percentage updates
+  onPartialResult?: (result: AudioAnalysisResult) => void; // Everything analysed so far, after each chunk
 }
-const normalizedMajorProfile = normalizeProfile(majorProfile);
-const normalizedMinorProfile = normalizeProfile(minorProfile);
 
 // --- Main Analysis Function ---
-export async function analyzeAudio(audioFile: File): Promise<AudioAnalysisResult> {
+export async function analyzeAudio(audioFile: File, options: AnalyzeAudioOptions = {}): Promise<AudioAnalysisResult> {
+  const { signal, onProgress } = options;
   let audioContext: AudioContext | null = null;
 
   try {
-    audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const arrayBuffer = await audioFile.arrayBuffer();
-    const originalAudioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-
-    let truncated = false;
-    let processedBuffer = originalAudioBuffer;
-
-    // Truncate if necessary
-    if (originalAudioBuffer.duration > MAX_DURATION_SECONDS) {
-      console.warn(`Audio duration (${originalAudioBuffer.duration}s) exceeds ${MAX_DURATION_SECONDS}s. Truncating.`);
-      truncated = true;
-      processedBuffer = await truncateAudioBuffer(originalAudioBuffer, MAX_DURATION_SECONDS, audioContext);
-    }
-
-    // Mix down to mono
-    const monoBufferData = mixDownToMono(processedBuffer);
-    if (!monoBufferData) {
-      throw new Error("Failed to process audio channels into mono.");
-    }
-
-    // --- Pitch Detection ---
-    let notes = detectNotes(monoBufferData, processedBuffer.sampleRate);
-    
-    // Ensure we have some notes - if none were detected, create some synthetic notes
-    // This is to ensure we always have something to display
-    if (notes.length === 0) {
-      console.warn("No notes detected in audio. Creating synthetic notes for display.");
-      notes = createSyntheticNotes(processedBuffer.duration);
-    }
-
-    // --- Feature Detection ---
-    const tempo = detectTempo(monoBufferData, processedBuffer.sampleRate);
-    const key = detectKey(notes);
-    const timeSignature = detectTimeSignature(notes, tempo); // Basic implementation
-
-    // Filter notes again if needed (already filtered in detectNotes)
-    const finalNotes = notes.filter(note => {
-      // Filter out very short notes (likely noise)
-      if (note.duration < MIN_NOTE_DURATION_SECONDS) return false;
-      
-      // Filter out notes with unusual/invalid pitches
-      if (!note.pitch || typeof note.pitch !== 'string' || note.pitch.trim() === '') return false;
-      
-      // Keep all notes to ensure we have something to display
-      return true;
-    });
-
-    // Ensure we have at least some notes after filtering
-    if (finalNotes.length === 0) {
-      console.warn("No notes left after filtering. Using synthetic notes.");
-      return {
-        tempo: Math.max(60, Math.round(tempo)),
-        key,
-        timeSignature: timeSignature || "4/4",
-        notes: createSyntheticNotes(processedBuffer.duration),
-        truncated
-      };
+    signal?.throwIfAborted();
+    if (!/^(audio|video)\//.test(audioFile.type) && !AUDIO_EXTENSIONS.test(audioFile.name)) {
+      console.warn(`[analyzeAudio] ${audioFile.name} (${audioFile.type || 'no type'}) is not an audio file.`);
+      return failedAnalysis('unsupportedFormat');
     }
+    onProgress?.(stageProgress('decoding'));
 
-    // Sort notes by start time for cleaner processing
-    finalNotes.sort((a, b) => a.startTime - b.startTime);
-
-    // Merge notes that are very close to each other (likely the same note)
-    const mergedNotes: Note[] = [];
-    for (let i = 0; i < finalNotes.length; i++) {
-      const currentNote = finalNotes[i];
-      
-      // If this is the last note or the next note is clearly separate
-      if (i === finalNotes.length - 1 || 
-          finalNotes[i + 1].startTime - (currentNote.startTime + currentNote.duration) > 0.05) {
-        mergedNotes.push(currentNote);
-        continue;
-      }
-      
-      // Check if the next note can be merged (same pitch, very close timing)
-      const nextNote = finalNotes[i + 1];
-      if (nextNote.pitch === currentNote.pitch && 
-          nextNote.startTime - (currentNote.startTime + currentNote.duration) < 0.05) {
-        // Merge by extending the duration of this note and skipping the next one
-        currentNote.duration = nextNote.startTime + nextNote.duration - currentNote.startTime;
-        i++; // Skip the next note
-        mergedNotes.push(currentNote);
-      } else {
-        mergedNotes.push(currentNote);
-      }
+    audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const arrayBuffer = await audioFile.arrayBuffer();
+    let audioBuffer: AudioBuffer;
+    try {
+      audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+    } catch (error) {
+      console.error(`[analyzeAudio] Could not decode ${audioFile.name}:`, error);
+      return failedAnalysis('decodeFailed');
     }
+    signal?.throwIfAborted();
 
-    const result: AudioAnalysisResult = {
-      tempo: Math.max(60, Math.round(tempo)),
-      key,
-      timeSignature: timeSignature || "4/4",
-      notes: mergedNotes,
-      truncated
-    };
+    const result = await runAnalysisInWorker(audioBuffer, options);
+    if (result.error) return result; // Nothing worth storing
 
     // --- Store analysis in Supabase (Optional) ---
     try {
@@ -144,15 +108,9 @@ export async function analyzeAudio(audioFile: File): Promise<AudioAnalysisResult
     return result;
 
   } catch (error) {
-    console.error('Audio analysis error:', error);
-    // Return a minimal valid result with synthetic notes rather than throwing an error
-    return {
-      tempo: 120,
-      key: "C Major",
-      timeSignature: "4/4",
-      notes: createSyntheticNotes(5),  // Create 5 seconds of synthetic notes
-      truncated: false
-    };
+    // Cancellation is not a failure - the caller sees it all the same
+    if (!isAbortError(error)) console.error('Audio analysis error:', error);
+    throw error;
   } finally {
     if (audioContext && audioContext.state !== 'closed') {
       await audioContext.close().catch(err => console.error("Error closing AudioContext:", err));
@@ -161,333 +119,75 @@ export async function analyzeAudio(audioFile: File): Promise<AudioAnalysisResult
   }
 }
 
-// Create synthetic notes for testing or when audio analysis fails
-function createSyntheticNotes(duration: number): Note[] {
-  const notes: Note[] = [];
-  const pitches = ["C4", "D4", "E4", "F4", "G4", "A4", "B4", "C5"];
-  const noteDuration = 0.5; // Half second per note
-  const noteCount = Math.max(8, Math.floor(duration / noteDuration));
-  
-  for (let i = 0; i < noteCount; i++) {
-    notes.push({
-      pitch: pitches[i % pitches.length],
-      startTime: i * noteDuration,
-      duration: noteDuration * 0.9, // Slight gap between notes
-      velocity: 80 // Medium-loud velocity
-    });
-  }
-  
-  return notes;
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
 }
 
-// --- Helper Functions ---
-
-async function truncateAudioBuffer(
-    buffer: AudioBuffer,
-    duration: number,
-    context: AudioContext
-): Promise<AudioBuffer> {
-    const { numberOfChannels, sampleRate } = buffer;
-    const newLength = Math.floor(duration * sampleRate);
-
-    const newBuffer = context.createBuffer(numberOfChannels, newLength, sampleRate);
-
-    for (let i = 0; i < numberOfChannels; i++) {
-        const oldData = buffer.getChannelData(i);
-        const newData = newBuffer.getChannelData(i);
-        newData.set(oldData.subarray(0, newLength));
-    }
-    return newBuffer;
-}
-
-function mixDownToMono(audioBuffer: AudioBuffer): Float32Array | null {
-  // ... (implementation remains the same as previous version)
-    if (!audioBuffer) return null;
-    const numChannels = audioBuffer.numberOfChannels;
-    const length = audioBuffer.length;
-    const monoData = new Float32Array(length);
-
-    if (numChannels === 1) {
-        monoData.set(audioBuffer.getChannelData(0));
-    } else {
-        const channels = Array.from({ length: numChannels }, (_, i) => audioBuffer.getChannelData(i));
-        for (let i = 0; i < length; i++) {
-            let sum = 0;
-            for (let j = 0; j < numChannels; j++) {
-                sum += channels[j][i];
-            }
-            monoData[i] = sum / numChannels;
-        }
-    }
-    return monoData;
-}
-
-function detectNotes(monoBufferData: Float32Array, sampleRate: number): Note[] {
-    const notes: Note[] = [];
-    const frameSize = 2048;
-    const hopSize = 441; // ~10ms step at 44.1kHz
-    const detector = PitchDetector.forFloat32Array(frameSize);
-
-    const overallRMS = calculateRMS(monoBufferData);
-    const silenceThreshold = overallRMS * 0.08; // Dynamic threshold based on overall volume
-    const pitchFilterWindowSize = 3; // Size of the median filter window
-    const recentFrequencies: number[] = [];
-
-    const clarityThreshold = 0.88; // Stricter clarity requirement for pitch detection
-    const minConsecutiveFrames = 3; // Require pitch to be stable for ~30ms to register as a note
-    const MIN_NOTE_DURATION_SECONDS = 0.07; // Minimum note length to register
-
-    let currentNote: Partial<Note> | null = null; // Holds data for the note currently being tracked
-    let lastPitchName = ''; // The name of the last stable pitch detected
-    let consecutiveFramesCount = 0; // Counter for consecutive frames with the same stable pitch
-    let potentialNoteStart: number | null = null; // Start time of a *potential* new note (needs confirmation)
-
-    for (let i = 0; i <= monoBufferData.length - frameSize; i += hopSize) {
-        const frame = monoBufferData.slice(i, i + frameSize);
-        const time = i / sampleRate; // Current time in seconds for this frame
-        const frameRMS = calculateRMS(frame); // Loudness of this frame
-
-        let frequency = 0;
-        let clarity = 0;
-
-        // Only attempt pitch detection if the frame is loud enough
-        if (frameRMS > silenceThreshold) {
-            [frequency, clarity] = detector.findPitch(frame, sampleRate);
-        }
-
-        // Median filter for frequency smoothing to reduce brief fluctuations
-        let filteredFrequency = 0;
-        if (frequency > 0) { // Only filter if a frequency was found
-            recentFrequencies.push(frequency);
-            if (recentFrequencies.length > pitchFilterWindowSize) recentFrequencies.shift();
-            filteredFrequency = median(recentFrequencies);
-        } else {
-             recentFrequencies.push(0); // Treat silence/unclear as 0 for filter continuity
-             if (recentFrequencies.length > pitchFilterWindowSize) recentFrequencies.shift();
-             filteredFrequency = median(recentFrequencies); // Will trend towards 0 if silent
-        }
-
-        // Convert the filtered frequency to a note name (e.g., "C4", "F#5", or "" if invalid)
-        const noteName = frequencyToNoteName(filteredFrequency);
-        // Calculate velocity based on frame loudness relative to overall loudness
-        const velocity = Math.min(127, Math.max(0, Math.round((frameRMS / (overallRMS + 1e-6)) * 90 + 30)));
-
-        // --- State Machine Logic for Note Detection ---
-        if (noteName && clarity >= clarityThreshold) { // Condition 1: Valid, clear note detected
-            if (noteName === lastPitchName) {
-                // Pitch is the same as the last stable frame, increment stability counter
-                consecutiveFramesCount++;
-            } else {
-                 // Pitch changed. End the *previous* stable note if it met duration criteria.
-                 if (currentNote && consecutiveFramesCount >= minConsecutiveFrames) {
-                     const duration = time - currentNote.startTime!;
-                     if (duration >= MIN_NOTE_DURATION_SECONDS) {
-                         // Previous note was stable and long enough, add it to the list
-                         notes.push({ ...currentNote, duration } as Note);
-                     }
-                 }
-                 // Reset counters and mark the potential start of a *new* note
-                 lastPitchName = noteName;
-                 consecutiveFramesCount = 1;
-                 potentialNoteStart = time; // Mark the start time of this potential new note
-                 currentNote = null; // Clear the confirmed 'currentNote' until this new one is stable
-            }
-
-            // If the pitch has been stable for the minimum number of frames, confirm the note
-            if (consecutiveFramesCount === minConsecutiveFrames && potentialNoteStart !== null) {
-                // This note is now considered stable, create the actual note object
-                currentNote = { pitch: noteName, startTime: potentialNoteStart, velocity: velocity };
-            } else if (currentNote) {
-                 // Optional: Update velocity of the currently held note (e.g., use the max velocity encountered)
-                 currentNote.velocity = Math.max(currentNote.velocity || 0, velocity);
-            }
-
-        } else { // Condition 2: Silence, unclear pitch, or low clarity
-            // If we were tracking a stable note, end it now.
-            if (currentNote && consecutiveFramesCount >= minConsecutiveFrames) {
-                const duration = time - currentNote.startTime!; // Calculate duration from its confirmed start
-                 if (duration >= MIN_NOTE_DURATION_SECONDS) {
-                    notes.push({ ...currentNote, duration } as Note);
-                 }
-            }
-             // Reset all tracking state during silence or unclear segments
-            currentNote = null;
-            lastPitchName = '';
-            consecutiveFramesCount = 0;
-            potentialNoteStart = null;
-            recentFrequencies.length = 0; // Clear frequency buffer too
-        }
-    }
-
-    // --- End of Loop --- 
-    // Handle the very last note in the audio if it was active and stable
-    if (currentNote && consecutiveFramesCount >= minConsecutiveFrames) {
-        const finalTime = monoBufferData.length / sampleRate; // End time of the audio buffer
-        const duration = finalTime - currentNote.startTime!;
-        if (duration >= MIN_NOTE_DURATION_SECONDS) {
-            notes.push({ ...currentNote, duration } as Note);
-        }
-    }
-
-    console.log(`Detected ${notes.length} notes.`); // Log final count
-    return notes;
-}
-
-function calculateRMS(buffer: Float32Array): number {
-  // ... (implementation remains the same)
-  let sumOfSquares = 0;
-  for (let i = 0; i < buffer.length; i++) {
-    sumOfSquares += buffer[i] * buffer[i];
-  }
-  // Add epsilon to prevent division by zero / NaN for complete silence
-  return Math.sqrt(sumOfSquares / (buffer.length || 1));
-}
-
-function median(values: number[]): number {
-  // ... (implementation remains the same)
-  if (values.length === 0) return 0;
-  const sorted = [...values].sort((a, b) => a - b);
-  const mid = Math.floor(sorted.length / 2);
-  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
-}
-
-function frequencyToNoteName(frequency: number): string {
- // ... (implementation remains the same, including deviation check)
-  if (!frequency || frequency <= 10) return '';
-  const midiNumber = 12 * Math.log2(frequency / 440) + 69;
-  const roundedMidi = Math.round(midiNumber);
-  if (roundedMidi < 21 || roundedMidi > 108) return ''; // Standard piano range check
-
-  const octave = Math.floor(roundedMidi / 12) - 1;
-  const noteIndex = roundedMidi % 12;
-
-  // Optional: Check deviation
-  const centsDeviation = 1200 * Math.log2(frequency / (440 * Math.pow(2, (roundedMidi - 69) / 12)));
-  if (Math.abs(centsDeviation) > 50) { // Allow up to a quarter tone deviation
-    // console.log(`Skipping note due to large deviation (${centsDeviation.toFixed(1)} cents): ${frequency.toFixed(1)}Hz`);
-    return '';
-  }
-  return `${NOTE_NAMES[noteIndex]}${octave}`;
-}
-
-
-function detectTempo(buffer: Float32Array, sampleRate: number): number {
-  // ... (implementation remains the same - using improved energy/onset method)
-   const minTempo = 60;
-    const maxTempo = 180;
-    const frameSize = 1024;
-    const hopSize = 256;
-    let previousRMS = 0;
-    const onsetThresholdMultiplier = 1.5;
-    const onsetTimes: number[] = [];
-    let localAverageRMS = 0;
-    const avgWindowSize = 10;
-    const rmsHistory: number[] = [];
-
-    for (let i = 0; i <= buffer.length - frameSize; i += hopSize) {
-        const frame = buffer.slice(i, i + frameSize);
-        const currentRMS = calculateRMS(frame);
-        rmsHistory.push(currentRMS);
-        if (rmsHistory.length > avgWindowSize) rmsHistory.shift();
-        localAverageRMS = rmsHistory.reduce((sum, val) => sum + val, 0) / rmsHistory.length;
-
-        if (currentRMS > previousRMS * onsetThresholdMultiplier && currentRMS > localAverageRMS * 1.1 && currentRMS > 0.01) { // Added min RMS check
-            onsetTimes.push(i / sampleRate);
-        }
-        previousRMS = currentRMS;
-    }
-
-    if (onsetTimes.length < 10) return 120; // Default tempo
-
-    const iois: number[] = [];
-    for (let i = 1; i < onsetTimes.length; i++) {
-        const ioi = onsetTimes[i] - onsetTimes[i - 1];
-         // Filter IOIs and consider double/half time possibilities
-        const tempoRangeCheck = (val: number) => (60 / maxTempo <= val && val <= 60 / minTempo);
-        if (tempoRangeCheck(ioi)) iois.push(ioi);
-        if (tempoRangeCheck(ioi * 2)) iois.push(ioi * 2);
-        if (tempoRangeCheck(ioi / 2)) iois.push(ioi / 2);
-    }
-
-     if (iois.length < 5) return 120; // Default tempo
-
-    iois.sort((a, b) => a - b);
-    const medianIOI = median(iois);
-    if (!medianIOI || medianIOI === 0) return 120;
-
-    const tempo = 60 / medianIOI;
-    return Math.max(minTempo, Math.min(maxTempo, Math.round(tempo)));
-}
-
-function detectKey(notes: Note[]): string {
-  // ... (implementation remains the same - using corrected correlation logic)
-  if (notes.length === 0) return 'N/A';
-  const pitchClasses: { [key: string]: number } = { /* ... C:0, C#:1 ... B:11 ... */ };
-  // Populate pitchClasses if not already done
-  NOTE_NAMES.forEach((name, index) => pitchClasses[name] = index);
-
-
-  const pitchCounts = new Array(12).fill(0);
-  let totalDuration = 0;
-  notes.forEach(note => {
-    if (!note || !note.pitch || typeof note.duration !== 'number') return;
-    const pitchClassMatch = note.pitch.match(/^([A-G]#?)/);
-    if (pitchClassMatch) {
-        const pitchName = pitchClassMatch[1];
-        const pitchClassIndex = pitchClasses[pitchName];
-        if (pitchClassIndex !== undefined) {
-            // Weight by duration and slightly by velocity (louder notes contribute more)
-            const weight = note.duration * (0.5 + note.velocity / 254);
-            pitchCounts[pitchClassIndex] += weight;
-            totalDuration += weight;
-        }
-    }
-  });
-
-  if (totalDuration === 0) return 'N/A';
-  const normalizedPitchCounts = pitchCounts.map(count => count / totalDuration);
-
-  let bestKeyIndex = 0;
-  let bestKeyIsMajor = true;
-  let maxCorrelation = -Infinity;
-
-  for (let i = 0; i < 12; i++) {
-    let majorCorr = 0;
-    let minorCorr = 0;
-    for (let j = 0; j < 12; j++) {
-      majorCorr += normalizedPitchCounts[j] * normalizedMajorProfile[(j - i + 12) % 12];
-      minorCorr += normalizedPitchCounts[j] * normalizedMinorProfile[(j - i + 12) % 12];
-    }
-    if (majorCorr > maxCorrelation) { maxCorrelation = majorCorr; bestKeyIndex = i; bestKeyIsMajor = true; }
-    if (minorCorr > maxCorrelation) { maxCorrelation = minorCorr; bestKeyIndex = i; bestKeyIsMajor = false; }
-  }
+/**
+ * Runs the analysis pipeline in a dedicated Web Worker, one overlapping chunk at a time
+ * @param audioBuffer Decoded audio; only the current chunk is copied out of it
+ * @param options Abort signal plus progress and partial-result callbacks
+ * @returns The stitched analysis of the whole recording
+ */
+function runAnalysisInWorker(
+  audioBuffer: AudioBuffer,
+  { signal, onProgress, onPartialResult }: AnalyzeAudioOptions
+): Promise<AudioAnalysisResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/analysisWorker.ts', import.meta.url), { type: 'module' });
+    const chunks = planChunks(audioBuffer.duration);
+    const { sampleRate } = audioBuffer;
+    let nextChunk = 0;
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException('Audio analysis was cancelled', 'AbortError'));
+    };
 
-  const rootNoteName = NOTE_NAMES[bestKeyIndex];
-  const mode = bestKeyIsMajor ? 'Major' : 'Minor';
-  return `${rootNoteName} ${mode}`;
-}
+    const sendNextChunk = () => {
+      const chunk = chunks[nextChunk++];
+      const start = Math.floor(chunk.windowStart * sampleRate);
+      const end = Math.min(audioBuffer.length, Math.ceil(chunk.windowEnd * sampleRate));
+      const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) =>
+        audioBuffer.getChannelData(i).slice(start, end)
+      );
+      const request: AnalysisWorkerRequest = { type: 'chunk', chunk, channels, sampleRate };
+      worker.postMessage(request, channels.map(channel => channel.buffer));
+    };
 
-function detectTimeSignature(notes: Note[], tempo: number): string {
-  // ... (implementation remains the same - basic placeholder)
-  // NOTE: This remains highly simplistic and likely inaccurate for complex rhythms.
-  if (notes.length < 5 || tempo <= 0) return '4/4';
-  const beatDuration = 60 / tempo;
-  let commonTimeScore = 0;
-  let compoundTimeScore = 0;
-  const tolerance = beatDuration * 0.2;
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'partial') {
+        if (message.result) onPartialResult?.(message.result);
+        sendNextChunk();
+      } else if (message.type === 'result') {
+        cleanup();
+        resolve(message.result);
+      } else {
+        cleanup();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = event => {
+      cleanup();
+      reject(new Error(event.message || 'Audio analysis worker failed'));
+    };
 
-  notes.forEach(note => {
-      const timeSinceStart = note.startTime;
-      if ((timeSinceStart % beatDuration < tolerance) || (timeSinceStart % beatDuration > beatDuration - tolerance)) commonTimeScore++;
-      const halfBeat = beatDuration / 2;
-      if ((timeSinceStart % halfBeat < tolerance) || (timeSinceStart % halfBeat > halfBeat - tolerance)) commonTimeScore += 0.5;
-      const dottedQuarter = beatDuration * 1.5;
-      if ((timeSinceStart % dottedQuarter < tolerance) || (timeSinceStart % dottedQuarter > dottedQuarter - tolerance)) compoundTimeScore++;
-      const eighthNote = beatDuration / 2;
-      if ((timeSinceStart % (eighthNote * 3) < tolerance) || (timeSinceStart % (eighthNote*3) > (eighthNote*3) - tolerance)) compoundTimeScore += 0.5;
+    console.log(`[analyzeAudio] Analysing ${audioBuffer.duration.toFixed(1)}s in ${chunks.length} chunk(s).`);
+    sendNextChunk();
   });
-
-  return compoundTimeScore > commonTimeScore * 1.1 ? '6/8' : '4/4';
 }
 
 async function storeAnalysisInSupabase(result: AudioAnalysisResult, fileName?: string): Promise<void> {
@@ -504,7 +204,6 @@ async function storeAnalysisInSupabase(result: AudioAnalysisResult, fileName?: s
                 time_signature: result.timeSignature,
                 notes: result.notes, // Ensure 'notes' column is JSONB
                 user_id: user.id,
-                truncated: result.truncated,
                 source_file: fileName ?? 'unknown', // Example: add filename
                 analyzed_at: new Date().toISOString(), // Example: add timestamp
             });
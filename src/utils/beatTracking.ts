@@ -0,0 +1,170 @@
+import type { TempoPoint } from './audioAnalysis';
+import type { OnsetEnvelope } from './onsetDetection';
+
+// --- Beat Tracking ---
+// Follows the beat through a performance by dynamic programming over the onset strength
+// envelope (after Ellis, 2007). An autocorrelation of the whole envelope gives the
+// typical beat period; windowed autocorrelations then follow the local period from
+// window to window, each staying near the one before it. The search then picks the beat sequence that lands on strong onsets
+// while keeping every interval close to the local period, so the beats follow a player
+// who speeds up or slows down instead of drifting off a single tempo.
+
+export const DEFAULT_TEMPO = 120; // Quarter notes per minute, when there is too little to track
+
+const MIN_TEMPO = 60;
+const MAX_TEMPO = 180;
+const TEMPO_PRIOR_OCTAVES = 1; // Width of the preference for tempos near DEFAULT_TEMPO
+const LOCAL_PRIOR_OCTAVES = 0.2; // A local period stays near the previous one, so the tempo glides instead of jumping
+const LOCAL_WINDOW_SECONDS = 8; // Envelope around a frame that decides its local period
+const LOCAL_HOP_SECONDS = 1; // Local periods are estimated this often
+const TIGHTNESS = 100; // Cost of log(interval / local period)^2 - higher keeps the beat steadier
+const MIN_ENVELOPE_SECONDS = 2; // Shorter recordings keep the default tempo
+const TEMPO_SMOOTHING_BEATS = 5; // Median window over beat intervals for the tempo curve
+const EDGE_STRENGTH = 0.5; // Leading and trailing beats weaker than this (relative to the RMS beat) are dropped
+
+export interface BeatTrackingResult {
+  beats: number[]; // Seconds, ascending
+  tempoCurve: TempoPoint[]; // Tempo at each beat, taking a beat as a quarter note
+  tempo: number; // Typical beats per minute: from the median beat interval
+}
+
+/**
+ * Finds the autocorrelation peak of part of the envelope, weighted towards a preferred period
+ * @param values Zero-mean onset strength
+ * @param from First frame of the part
+ * @param to End frame of the part (exclusive)
+ * @param minLag Shortest period considered, in frames
+ * @param maxLag Longest period considered, in frames
+ * @param preferredLag Period the weighting is centred on
+ * @param priorOctaves Width of the weighting, in octaves
+ * @returns Period in frames; preferredLag if the part has no periodicity
+ */
+function autocorrelationPeriod(
+  values: Float64Array,
+  from: number,
+  to: number,
+  minLag: number,
+  maxLag: number,
+  preferredLag: number,
+  priorOctaves: number
+): number {
+  let bestLag = preferredLag;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag && lag < to - from; lag++) {
+    let sum = 0;
+    for (let n = from; n + lag < to; n++) sum += values[n] * values[n + lag];
+    const prior = Math.exp(-0.5 * (Math.log2(lag / preferredLag) / priorOctaves) ** 2);
+    const score = (sum / (to - from - lag)) * prior;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  return bestLag;
+}
+
+/**
+ * Derives a smoothed tempo curve from beat times
+ * @param beats Beat times in seconds, ascending
+ * @param quartersPerBeat Length of a beat in quarter notes
+ * @returns Tempo at each beat, in quarter notes per minute (empty for fewer than two beats)
+ */
+export function tempoCurveFromBeats(beats: number[], quartersPerBeat = 1): TempoPoint[] {
+  if (beats.length < 2) return [];
+  const intervals = beats.slice(1).map((beat, index) => beat - beats[index]);
+  const half = Math.floor(TEMPO_SMOOTHING_BEATS / 2);
+  return beats.map((time, index) => {
+    const first = Math.max(0, Math.min(index, intervals.length - 1) - half);
+    const window = intervals.slice(first, first + TEMPO_SMOOTHING_BEATS).sort((a, b) => a - b);
+    return { time, bpm: (60 * quartersPerBeat) / window[Math.floor(window.length / 2)] };
+  });
+}
+
+/**
+ * Typical tempo of a beat sequence
+ * @param beats Beat times in seconds, ascending
+ * @returns Beats per minute, from the median interval; DEFAULT_TEMPO for fewer than two beats
+ */
+export function medianTempo(beats: number[]): number {
+  if (beats.length < 2) return DEFAULT_TEMPO;
+  const intervals = beats
+    .slice(1)
+    .map((beat, index) => beat - beats[index])
+    .sort((a, b) => a - b);
+  return 60 / intervals[Math.floor(intervals.length / 2)];
+}
+
+/**
+ * Tracks the beat of a performance
+ * @param envelope Onset strength of the whole recording
+ * @returns Beat times with the tempo curve; no beats if the recording is too short or silent
+ */
+export function trackBeats(envelope: OnsetEnvelope): BeatTrackingResult {
+  const { frameRate, startTime } = envelope;
+  const frameCount = envelope.values.length;
+  const untracked = { beats: [], tempoCurve: [], tempo: DEFAULT_TEMPO };
+  if (frameCount < MIN_ENVELOPE_SECONDS * frameRate) return untracked;
+
+  // Strength in units of its spread; the autocorrelation works on the zero-mean version
+  let mean = 0;
+  for (let n = 0; n < frameCount; n++) mean += envelope.values[n] ?? 0;
+  mean /= frameCount;
+  let variance = 0;
+  for (let n = 0; n < frameCount; n++) variance += ((envelope.values[n] ?? 0) - mean) ** 2;
+  const spread = Math.sqrt(variance / frameCount);
+  if (spread === 0) return untracked;
+  const strength = new Float64Array(frameCount);
+  const centered = new Float64Array(frameCount);
+  for (let n = 0; n < frameCount; n++) {
+    strength[n] = (envelope.values[n] ?? 0) / spread;
+    centered[n] = strength[n] - mean / spread;
+  }
+
+  // Typical period, then the local period around each frame, starting from the typical one
+  const minLag = Math.round((60 / MAX_TEMPO) * frameRate);
+  const maxLag = Math.round((60 / MIN_TEMPO) * frameRate);
+  const defaultLag = (60 / DEFAULT_TEMPO) * frameRate;
+  const period = autocorrelationPeriod(centered, 0, frameCount, minLag, maxLag, defaultLag, TEMPO_PRIOR_OCTAVES);
+  const hop = Math.round(LOCAL_HOP_SECONDS * frameRate);
+  const halfWindow = Math.round((LOCAL_WINDOW_SECONDS / 2) * frameRate);
+  const localPeriods: number[] = [];
+  for (let center = 0; center < frameCount + hop; center += hop) {
+    const from = Math.max(0, center - halfWindow);
+    const to = Math.min(frameCount, center + halfWindow);
+    const preferred = localPeriods[localPeriods.length - 1] ?? period;
+    localPeriods.push(autocorrelationPeriod(centered, from, to, minLag, maxLag, preferred, LOCAL_PRIOR_OCTAVES));
+  }
+
+  // score[t]: best total strength of a beat sequence ending with a beat at frame t
+  const score = new Float64Array(frameCount);
+  const previous = new Int32Array(frameCount).fill(-1);
+  for (let t = 0; t < frameCount; t++) {
+    const localPeriod = localPeriods[Math.round(t / hop)];
+    let best = 0; // A sequence may also start here
+    for (let p = Math.max(0, t - Math.round(2 * localPeriod)); p <= t - Math.round(localPeriod / 2); p++) {
+      const value = score[p] - TIGHTNESS * Math.log((t - p) / localPeriod) ** 2;
+      if (value > best) {
+        best = value;
+        previous[t] = p;
+      }
+    }
+    score[t] = strength[t] + best;
+  }
+
+  // The best sequence ends at the highest score; on a tie, the later beat
+  let last = 0;
+  for (let t = 1; t < frameCount; t++) if (score[t] >= score[last]) last = t;
+  const frames: number[] = [];
+  for (let t = last; t >= 0; t = previous[t]) frames.unshift(t);
+
+  // The sequence carries on through silence at either end; trim the beats that land on nothing
+  const rms = Math.sqrt(frames.reduce((sum, frame) => sum + strength[frame] ** 2, 0) / frames.length);
+  while (frames.length > 0 && strength[frames[0]] < EDGE_STRENGTH * rms) frames.shift();
+  while (frames.length > 0 && strength[frames[frames.length - 1]] < EDGE_STRENGTH * rms) frames.pop();
+
+  const beats = frames.map(frame => startTime + frame / frameRate);
+  if (beats.length < 2) return untracked;
+  const tempo = medianTempo(beats);
+  console.log(`[trackBeats] ${beats.length} beats, typical tempo ${tempo.toFixed(1)} BPM (global estimate ${((60 * frameRate) / period).toFixed(1)}).`);
+  return { beats, tempoCurve: tempoCurveFromBeats(beats), tempo };
+}
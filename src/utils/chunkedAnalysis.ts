@@ -0,0 +1,132 @@
+import type { Note } from './audioAnalysis';
+import type { Detections } from './analysisPipeline';
+import type { OnsetEnvelope } from './onsetDetection';
+
+// --- Chunked Analysis ---
+// Long recordings are analysed in overlapping windows so that only one window of
+// PCM is in flight at a time. Each window owns the notes that *start* inside its
+// core region; the overlap on either side gives the detectors context, and notes
+// still sounding at a window's end are stitched to their continuation in the next.
+
+export const CHUNK_SECONDS = 20; // Core length of each chunk
+export const CHUNK_OVERLAP_SECONDS = 2; // Context added before and after the core
+
+const BOUNDARY_TOLERANCE_SECONDS = 0.15; // Frame-loop slack at the edges of a window
+
+export interface AnalysisChunk {
+  index: number;
+  count: number;
+  windowStart: number; // Seconds - start of the samples handed to the detectors
+  windowEnd: number;
+  coreStart: number; // Seconds - notes starting in [coreStart, coreEnd) belong to this chunk
+  coreEnd: number;
+}
+
+// A frame-wise envelope of the whole recording, on one frame grid from time 0
+type StitchedEnvelope = OnsetEnvelope & { values: number[] };
+
+export interface StitchState extends Detections {
+  notes: Note[]; // Accepted notes, in chunk order
+  onsets: number[]; // Accepted onsets, ascending
+  envelope: StitchedEnvelope; // Onset strength of the recording so far
+  pedalEvidence: { damping: StitchedEnvelope; resonance: StitchedEnvelope };
+  peak: number; // Loudest sample so far
+  openNotes: Map<string, Note>; // Accepted notes still sounding at the last window's end, by pitch
+}
+
+/**
+ * Splits a recording into overlapping analysis chunks
+ * @param durationSeconds Length of the recording
+ * @returns Chunks covering the recording; at least one
+ */
+export function planChunks(durationSeconds: number): AnalysisChunk[] {
+  const count = Math.max(1, Math.ceil(durationSeconds / CHUNK_SECONDS));
+  return Array.from({ length: count }, (_, index) => {
+    const coreStart = index * CHUNK_SECONDS;
+    const coreEnd = index === count - 1 ? durationSeconds : (index + 1) * CHUNK_SECONDS;
+    return {
+      index,
+      count,
+      windowStart: Math.max(0, coreStart - CHUNK_OVERLAP_SECONDS),
+      windowEnd: Math.min(durationSeconds, coreEnd + CHUNK_OVERLAP_SECONDS),
+      coreStart,
+      coreEnd,
+    };
+  });
+}
+
+export function createStitchState(): StitchState {
+  const envelope = (): StitchedEnvelope => ({ values: [], frameRate: 100, startTime: 0 });
+  return {
+    notes: [],
+    onsets: [],
+    envelope: envelope(),
+    pedalEvidence: { damping: envelope(), resonance: envelope() },
+    peak: 0,
+    openNotes: new Map(),
+  };
+}
+
+/**
+ * Copies the core's frames of a chunk's envelope into the recording's, resampled onto its frame grid
+ * @param target Envelope of the recording, updated in place
+ * @param chunk The chunk the envelope came from
+ * @param envelope The chunk's envelope
+ */
+function stitchEnvelope(target: StitchedEnvelope, chunk: AnalysisChunk, envelope: OnsetEnvelope): void {
+  const { frameRate } = envelope;
+  target.frameRate = frameRate;
+  for (let frame = Math.ceil(chunk.coreStart * frameRate); frame < chunk.coreEnd * frameRate; frame++) {
+    const source = Math.round((frame / frameRate - envelope.startTime) * frameRate);
+    target.values[frame] = envelope.values[source] ?? 0;
+  }
+}
+
+/**
+ * Merges one chunk's detections (absolute times) into the running state
+ * @param state Stitch state, updated in place
+ * @param chunk The chunk the detections came from
+ * @param detections What was detected in the chunk's window
+ */
+export function stitchChunk(state: StitchState, chunk: AnalysisChunk, detections: Detections): void {
+  const { notes, onsets, envelope, pedalEvidence, peak } = detections;
+  const isLast = chunk.index === chunk.count - 1;
+  const nextOpenNotes = new Map<string, Note>();
+
+  const reachesWindowEnd = (note: Note) =>
+    !isLast && note.startTime + note.duration >= chunk.windowEnd - BOUNDARY_TOLERANCE_SECONDS;
+
+  notes.forEach(note => {
+    if (note.startTime >= chunk.coreEnd) return; // The next chunk owns it
+
+    if (note.startTime < chunk.coreStart) {
+      // Leading overlap: only useful as the continuation of a note left open by the
+      // previous chunk - either the same note seen again, or its tail from the window start
+      const open = state.openNotes.get(note.pitch);
+      const isContinuation =
+        open &&
+        (Math.abs(note.startTime - open.startTime) <= BOUNDARY_TOLERANCE_SECONDS ||
+          note.startTime <= chunk.windowStart + BOUNDARY_TOLERANCE_SECONDS);
+      if (!open || !isContinuation) return;
+
+      const end = Math.max(open.startTime + open.duration, note.startTime + note.duration);
+      open.duration = end - open.startTime;
+      open.velocity = Math.max(open.velocity, note.velocity);
+      open.confidence = Math.min(open.confidence ?? 1, note.confidence ?? 1);
+      if (reachesWindowEnd(note)) nextOpenNotes.set(note.pitch, open);
+      return;
+    }
+
+    const accepted = { ...note };
+    state.notes.push(accepted);
+    if (reachesWindowEnd(accepted)) nextOpenNotes.set(accepted.pitch, accepted);
+  });
+
+  state.onsets.push(...onsets.filter(onset => onset >= chunk.coreStart && onset < chunk.coreEnd));
+
+  stitchEnvelope(state.envelope, chunk, envelope);
+  stitchEnvelope(state.pedalEvidence.damping, chunk, pedalEvidence.damping);
+  stitchEnvelope(state.pedalEvidence.resonance, chunk, pedalEvidence.resonance);
+  state.openNotes = nextOpenNotes;
+  state.peak = Math.max(state.peak, peak);
+}
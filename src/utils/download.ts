@@ -0,0 +1,28 @@
+/**
+ * Saves generated data as a file through the browser's download prompt
+ * @param data File contents
+ * @param mimeType MIME type of the file
+ * @param fileName Suggested name for the saved file
+ */
+export function downloadFile(data: BlobPart, mimeType: string, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Derives an export file name from the source recording
+ * @param sourceName Name of the uploaded file, if any
+ * @param extension Extension of the exported file, without the dot
+ * @returns e.g. "nocturne.mid" for "nocturne.mp3"
+ */
+export function exportFileName(sourceName: string | undefined, extension: string): string {
+  const base = sourceName?.replace(/\.[^.]+$/, '') || 'keyscribe-transcription';
+  return `${base}.${extension}`;
+}
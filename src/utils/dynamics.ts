@@ -0,0 +1,143 @@
+import type { QuantizedScore } from './quantization';
+
+// --- Dynamics ---
+// Turns note velocities into dynamic markings. Each attack is as loud as its loudest
+// note (usually the melody), and the attacks are smoothed over the surrounding phrase
+// so single accents don't count. Every measure then gets the dynamic level of its
+// smoothed loudness, on the velocity bands MIDI uses for pp to ff; a new level is only
+// written once the loudness has moved clearly past the current one's band, so the
+// markings don't flicker between neighbouring levels from bar to bar. Stretches where
+// the smoothed loudness keeps rising or falling become crescendo and diminuendo hairpins.
+
+export type DynamicLevel = 'pp' | 'p' | 'mp' | 'mf' | 'f' | 'ff';
+
+// Lowest velocity of each level, softest first
+const LEVELS: { level: DynamicLevel; from: number }[] = [
+  { level: 'pp', from: 0 },
+  { level: 'p', from: 41 },
+  { level: 'mp', from: 57 },
+  { level: 'mf', from: 72 },
+  { level: 'f', from: 88 },
+  { level: 'ff', from: 104 },
+];
+
+const PHRASE_QUARTERS = 1.5; // Spread of the smoothing over neighbouring attacks
+const HYSTERESIS = 6; // Velocity past the current level's band before a new level is written
+const MIN_STEP = 1; // Smoothed velocity gained (or lost) from one attack to the next within a hairpin
+const MIN_HAIRPIN_CHANGE = 12; // Velocity a hairpin must gain or lose overall
+const MIN_HAIRPIN_QUARTERS = 2;
+
+// A dynamic level, written at a point in the score
+export interface DynamicMark {
+  tick: number; // Quantizer ticks from the start of the score
+  level: DynamicLevel;
+}
+
+// A crescendo or diminuendo hairpin
+export interface Hairpin {
+  start: number; // Ticks
+  end: number;
+  isCrescendo: boolean;
+}
+
+export interface Dynamics {
+  marks: DynamicMark[]; // In tick order; the first is at the first attack
+  hairpins: Hairpin[]; // In tick order, not overlapping
+}
+
+/**
+ * Finds the level whose velocity band holds a loudness
+ * @param velocity Loudness as a MIDI velocity
+ * @returns Index into LEVELS
+ */
+function levelIndex(velocity: number): number {
+  let index = 0;
+  while (index + 1 < LEVELS.length && velocity >= LEVELS[index + 1].from) index++;
+  return index;
+}
+
+/**
+ * Smooths the loudness of the attacks over the phrase around each
+ * @param attacks Attack ticks with their loudness, in tick order
+ * @param ticksPerQuarter Score resolution
+ * @returns Smoothed loudness per attack
+ */
+function smoothLoudness(attacks: { tick: number; velocity: number }[], ticksPerQuarter: number): number[] {
+  const spread = PHRASE_QUARTERS * ticksPerQuarter;
+  return attacks.map(({ tick }) => {
+    let sum = 0;
+    let weights = 0;
+    attacks.forEach(other => {
+      const distance = (other.tick - tick) / spread;
+      if (Math.abs(distance) > 3) return;
+      const weight = Math.exp(-0.5 * distance ** 2);
+      sum += weight * other.velocity;
+      weights += weight;
+    });
+    return sum / weights;
+  });
+}
+
+/**
+ * Derives dynamic levels and hairpins from how hard the notes were played
+ * @param score Quantized score of the whole piece
+ * @returns Level changes and hairpins; none without notes
+ */
+export function detectDynamics(score: QuantizedScore): Dynamics {
+  // Each attack is as loud as its loudest note
+  const loudest = new Map<number, number>();
+  score.notes.forEach(({ note, start }) => loudest.set(start, Math.max(loudest.get(start) ?? 0, note.velocity)));
+  const attacks = [...loudest]
+    .map(([tick, velocity]) => ({ tick, velocity }))
+    .sort((a, b) => a.tick - b.tick);
+  if (attacks.length === 0) return { marks: [], hairpins: [] };
+  const smoothed = smoothLoudness(attacks, score.ticksPerQuarter);
+
+  // Runs of attacks that keep getting louder or softer; the direction of the step into
+  // an attack is 1 louder, -1 softer, 0 about level
+  const direction = (index: number) => {
+    const change = smoothed[index] - smoothed[index - 1];
+    return Math.abs(change) >= MIN_STEP ? Math.sign(change) : 0;
+  };
+  const hairpins: Hairpin[] = [];
+  let runStart = 0;
+  for (let index = 1; index <= attacks.length; index++) {
+    const continuesRun = index === runStart + 1 || direction(index) === direction(index - 1);
+    if (index < attacks.length && direction(index) !== 0 && continuesRun) continue;
+    const change = smoothed[index - 1] - smoothed[runStart];
+    const length = attacks[index - 1].tick - attacks[runStart].tick;
+    if (Math.abs(change) >= MIN_HAIRPIN_CHANGE && length >= MIN_HAIRPIN_QUARTERS * score.ticksPerQuarter) {
+      hairpins.push({ start: attacks[runStart].tick, end: attacks[index - 1].tick, isCrescendo: change > 0 });
+    }
+    // A step that breaks the run may start the next one
+    runStart = index < attacks.length && direction(index) !== 0 ? index - 1 : index;
+  }
+
+  // A level per measure, written where it changes; a hairpin shows the change within it
+  const marks: DynamicMark[] = [];
+  let current = -1;
+  let measureFirst = 0;
+  for (let index = 1; index <= attacks.length; index++) {
+    const measure = Math.floor(attacks[measureFirst].tick / score.measureTicks);
+    if (index < attacks.length && Math.floor(attacks[index].tick / score.measureTicks) === measure) continue;
+    const firstTick = attacks[measureFirst].tick;
+    if (hairpins.some(hairpin => firstTick > hairpin.start && firstTick < hairpin.end)) {
+      measureFirst = index;
+      continue;
+    }
+    const values = smoothed.slice(measureFirst, index);
+    const loudness = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const upper = LEVELS[current + 1]?.from ?? Infinity;
+    const isPastBand = current < 0 || loudness < LEVELS[current].from - HYSTERESIS || loudness >= upper + HYSTERESIS;
+    if (isPastBand && levelIndex(loudness) !== current) {
+      current = levelIndex(loudness);
+      marks.push({ tick: firstTick, level: LEVELS[current].level });
+    }
+    measureFirst = index;
+  }
+
+  console.log(
+    `[detectDynamics] ${marks.map(mark => mark.level).join(' ')}; ${hairpins.length} hairpin(s) over ${attacks.length} attacks.`
+  );
+  return { marks, hairpins };
+}
@@ -0,0 +1,252 @@
+import type { AudioAnalysisResult, Note } from './audioAnalysis';
+import type { HandSplitOverrides } from './handSeparation';
+
+// --- Edit History ---
+// Undo and redo over the transcription Home shows. Every change is recorded as a command
+// that can be applied to the state before it and reverted from the state after it: note
+// edits keep only the notes they removed and added, so a long piece's history stays small
+// enough to keep in session storage. A new transcription is a command too, holding the
+// transcriptions before and after. Commands of one group that follow each other quickly
+// (typing a velocity, repeated transpositions) are merged into one step.
+
+const HISTORY_LIMIT = 100; // Steps kept; the oldest are dropped first
+const GROUP_MILLISECONDS = 1000; // A grouped command within this of the last one joins its step
+const STORAGE_KEY = 'keyscribe.editHistory';
+
+export interface TranscriptionState {
+  analysis: AudioAnalysisResult | null;
+  handSplits: HandSplitOverrides;
+}
+
+// What an edit is called and which edits it merges with
+export interface EditDescription {
+  label: string; // e.g. "Move notes"
+  group?: string; // Consecutive edits of one group, close together, are undone as one step
+}
+
+interface IndexedNote {
+  index: number;
+  note: Note;
+}
+
+type EditChange =
+  | { type: 'notes'; removed: IndexedNote[]; added: IndexedNote[] } // Indices before and after the edit
+  | { type: 'handSplits'; before: HandSplitOverrides; after: HandSplitOverrides }
+  | { type: 'transcription'; before: TranscriptionState; after: TranscriptionState };
+
+export interface EditCommand extends EditDescription {
+  time: number; // Milliseconds since the epoch
+  change: EditChange;
+}
+
+export interface EditHistory {
+  present: TranscriptionState; // The state after the last applied command
+  past: EditCommand[]; // Oldest first
+  future: EditCommand[]; // Next to redo first
+}
+
+// The notation shown with the history, so a reload can show the sheet straight away
+interface StoredSession {
+  history: EditHistory;
+  notation: string;
+}
+
+export const EMPTY_HISTORY: EditHistory = { present: { analysis: null, handSplits: {} }, past: [], future: [] };
+
+const noteKey = (note: Note) => `${note.pitch}|${note.startTime}|${note.duration}|${note.velocity}|${note.confidence ?? ''}`;
+
+/**
+ * Works out which notes an edit removed and added
+ * @param before Notes before the edit
+ * @param after Notes after the edit
+ * @returns The change; every note counts as replaced if the unchanged ones were reordered
+ */
+function diffNotes(before: Note[], after: Note[]): EditChange {
+  const afterIndices = new Map<string, number[]>();
+  after.forEach((note, index) => afterIndices.set(noteKey(note), [...(afterIndices.get(noteKey(note)) ?? []), index]));
+
+  const kept = new Set<number>(); // Indices into after
+  const removed: IndexedNote[] = [];
+  let lastKept = -1;
+  let isOrdered = true;
+  before.forEach((note, index) => {
+    const match = afterIndices.get(noteKey(note))?.shift();
+    if (match === undefined) {
+      removed.push({ index, note });
+      return;
+    }
+    if (match < lastKept) isOrdered = false;
+    lastKept = match;
+    kept.add(match);
+  });
+  if (!isOrdered) {
+    return {
+      type: 'notes',
+      removed: before.map((note, index) => ({ index, note })),
+      added: after.map((note, index) => ({ index, note })),
+    };
+  }
+  const added = after.flatMap((note, index) => (kept.has(index) ? [] : [{ index, note }]));
+  return { type: 'notes', removed, added };
+}
+
+/**
+ * Applies a notes change to a list of notes
+ * @param notes Notes before the change
+ * @param removed Notes to take out, by index in notes
+ * @param added Notes to put in, by index in the result
+ * @returns The notes after the change
+ */
+function patchNotes(notes: Note[], removed: IndexedNote[], added: IndexedNote[]): Note[] {
+  const removedIndices = new Set(removed.map(entry => entry.index));
+  const result = notes.filter((_, index) => !removedIndices.has(index));
+  [...added].sort((a, b) => a.index - b.index).forEach(({ index, note }) => result.splice(index, 0, note));
+  return result;
+}
+
+/**
+ * Describes an edit of the notes as a command
+ * @param before Notes before the edit
+ * @param after Notes after the edit
+ * @param description Name and group of the edit
+ * @returns The command
+ */
+export function notesCommand(before: Note[], after: Note[], { label, group }: EditDescription): EditCommand {
+  return { label, group, time: Date.now(), change: diffNotes(before, after) };
+}
+
+/**
+ * Describes a change of the hand split points as a command
+ */
+export function handSplitsCommand(
+  before: HandSplitOverrides,
+  after: HandSplitOverrides,
+  { label, group }: EditDescription
+): EditCommand {
+  return { label, group, time: Date.now(), change: { type: 'handSplits', before, after } };
+}
+
+/**
+ * Describes replacing the transcription (a new analysis) as a command
+ */
+export function transcriptionCommand(before: TranscriptionState, after: TranscriptionState, label: string): EditCommand {
+  return { label, time: Date.now(), change: { type: 'transcription', before, after } };
+}
+
+/**
+ * Applies a command
+ * @param state State before the command
+ * @param command The command
+ * @returns State after the command
+ */
+function applyCommand(state: TranscriptionState, { change }: EditCommand): TranscriptionState {
+  switch (change.type) {
+    case 'notes':
+      return state.analysis
+        ? { ...state, analysis: { ...state.analysis, notes: patchNotes(state.analysis.notes, change.removed, change.added) } }
+        : state;
+    case 'handSplits':
+      return { ...state, handSplits: change.after };
+    case 'transcription':
+      return change.after;
+  }
+}
+
+/**
+ * Takes a command back
+ * @param state State after the command
+ * @param command The command
+ * @returns State before the command
+ */
+function revertCommand(state: TranscriptionState, { change }: EditCommand): TranscriptionState {
+  switch (change.type) {
+    case 'notes':
+      return state.analysis
+        ? { ...state, analysis: { ...state.analysis, notes: patchNotes(state.analysis.notes, change.added, change.removed) } }
+        : state;
+    case 'handSplits':
+      return { ...state, handSplits: change.before };
+    case 'transcription':
+      return change.before;
+  }
+}
+
+/**
+ * Applies a command and records it, merging it into the last step when they are one gesture
+ * @param history History up to now
+ * @param command The new command
+ * @returns History with the command applied; nothing left to redo
+ */
+export function recordEdit(history: EditHistory, command: EditCommand): EditHistory {
+  const present = applyCommand(history.present, command);
+  const last = history.past[history.past.length - 1];
+  const isSameGesture =
+    last && command.group !== undefined && last.group === command.group && command.time - last.time <= GROUP_MILLISECONDS;
+
+  let past = [...history.past, command];
+  if (isSameGesture && last.change.type === 'notes' && command.change.type === 'notes') {
+    const beforeLast = revertCommand(history.present, last);
+    const merged = notesCommand(beforeLast.analysis?.notes ?? [], present.analysis?.notes ?? [], command);
+    past = [...history.past.slice(0, -1), merged];
+  } else if (isSameGesture && last.change.type === 'handSplits' && command.change.type === 'handSplits') {
+    past = [...history.past.slice(0, -1), handSplitsCommand(last.change.before, command.change.after, command)];
+  }
+  return { present, past: past.slice(-HISTORY_LIMIT), future: [] };
+}
+
+/**
+ * Takes back the last step
+ * @returns The history one step back; the same history if there is nothing to undo
+ */
+export function undo(history: EditHistory): EditHistory {
+  const last = history.past[history.past.length - 1];
+  if (!last) return history;
+  console.log(`[undo] ${last.label}.`);
+  return { present: revertCommand(history.present, last), past: history.past.slice(0, -1), future: [last, ...history.future] };
+}
+
+/**
+ * Applies the last undone step again
+ * @returns The history one step forward; the same history if there is nothing to redo
+ */
+export function redo(history: EditHistory): EditHistory {
+  const next = history.future[0];
+  if (!next) return history;
+  console.log(`[redo] ${next.label}.`);
+  return { present: applyCommand(history.present, next), past: [...history.past, next], future: history.future.slice(1) };
+}
+
+/**
+ * Keeps the history for the rest of the browser session, dropping old steps if storage is full
+ * @param history History to keep
+ * @param notation Notation of the present state
+ */
+export function saveSession(history: EditHistory, notation: string): void {
+  for (let past = history.past; ; past = past.slice(Math.ceil(past.length / 2))) {
+    try {
+      const session: StoredSession = { history: { ...history, past }, notation };
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+      return;
+    } catch (err) {
+      if (past.length === 0) {
+        console.warn('[saveSession] The transcription is too large to keep for this session:', err);
+        sessionStorage.removeItem(STORAGE_KEY);
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Restores the history kept earlier in this browser session
+ * @returns The history and its notation; null if there is none (or it can't be read)
+ */
+export function loadSession(): StoredSession | null {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as StoredSession) : null;
+  } catch (err) {
+    console.warn('[loadSession] Could not restore the edit history:', err);
+    return null;
+  }
+}
@@ -0,0 +1,220 @@
+import type { Note } from './audioAnalysis';
+import { noteNameToMidi, parseTimeSignature } from './musicTheory';
+import { createScoreTiming } from './quantization';
+
+// --- Hand Separation ---
+// Decides which staff (right hand / treble, left hand / bass) each note is written on.
+// Notes that start together form a cluster, and each cluster is split between the hands
+// at one point in its pitch order. A Viterbi search over the clusters picks the splits
+// that keep each hand within reach, near where it just played and uncrossed, and that
+// leave a line in the hand playing it, so a left-hand line can cross middle C without
+// jumping staves. A hand that rests drifts back to its home register rather than being
+// free to take any note. Measures with a user-set split point skip the search and split there.
+
+export const DEFAULT_SPLIT_MIDI = 60; // Middle C and above go to the right hand
+
+const CLUSTER_SECONDS = 0.05; // Onsets this close are played together
+const MAX_HAND_SPAN = 14; // Semitones one hand can reach (a ninth, with some give)
+
+// Costs, per semitone
+const SPAN_COST = 10; // Stretch beyond the hand's span
+const MOVE_COST = 1; // Distance of a note from the nearest pitch its hand last played (voice leading)
+const CROSSING_COST = 4; // Left hand's centre above the right hand's
+const REGISTER_COST = 0.3; // Note on the far side of middle C for its hand
+const LINE_SWITCH_COST = 6; // Per note: a line continued by the other hand than the one that just played it
+const MEMORY_SECONDS = 2; // A resting hand drifts back towards its home register over about this long
+const LINE_INTERVAL = 5; // Semitones: a note this close to one just played continues its line (a step or small leap)
+const HOME_MIDI = { right: 67, left: 53 }; // G4 and F3: where each hand rests, and starts from
+
+export interface HandParts {
+  right: Note[]; // Treble staff
+  left: Note[]; // Bass staff
+}
+
+// User-chosen split points: 0-based measure index -> lowest MIDI note given to the right hand
+export interface HandSplitOverrides {
+  [measure: number]: number;
+}
+
+export interface HandSeparationOptions {
+  tempo?: number; // Quarter notes per minute; with the time signature, places notes in measures
+  beats?: number[]; // Tracked beat times, used instead of the tempo when given
+  downbeat?: number; // Index into beats of the first downbeat
+  timeSignature?: string;
+  overrides?: HandSplitOverrides;
+}
+
+interface Cluster {
+  time: number; // Seconds
+  notes: { note: Note; midi: number }[]; // Sorted by pitch
+  fixedSplit: number | null; // Override for the cluster's measure
+}
+
+interface HandPosition {
+  pitches: number[]; // MIDI, what the hand last played
+  center: number;
+  time: number; // When it played them
+}
+
+interface SearchState {
+  cost: number;
+  previous: number; // State index in the previous cluster
+  right: HandPosition | null;
+  left: HandPosition | null;
+}
+
+/**
+ * Groups notes into clusters of near-simultaneous onsets
+ * @param notes Notes with known pitches
+ * @param measureOf Measure index of a time, when there are overrides
+ * @param overrides Split points by measure
+ * @returns Clusters in time order
+ */
+function clusterNotes(
+  notes: { note: Note; midi: number }[],
+  measureOf: (seconds: number) => number,
+  overrides: HandSplitOverrides
+): Cluster[] {
+  const clusters: Cluster[] = [];
+  [...notes]
+    .sort((a, b) => a.note.startTime - b.note.startTime)
+    .forEach(entry => {
+      const last = clusters[clusters.length - 1];
+      if (last && entry.note.startTime - last.time <= CLUSTER_SECONDS) {
+        last.notes.push(entry);
+      } else {
+        clusters.push({ time: entry.note.startTime, notes: [entry], fixedSplit: overrides[measureOf(entry.note.startTime)] ?? null });
+      }
+    });
+  clusters.forEach(cluster => cluster.notes.sort((a, b) => a.midi - b.midi));
+  return clusters;
+}
+
+/**
+ * Distance from a pitch to the nearest of some others
+ * @returns Semitones; Infinity if there are none
+ */
+function nearestDistance(midi: number, pitches: number[]): number {
+  return pitches.reduce((nearest, pitch) => Math.min(nearest, Math.abs(midi - pitch)), Infinity);
+}
+
+/**
+ * Cost of one hand playing some notes of a cluster
+ * @param midis Pitches the hand plays, ascending (non-empty)
+ * @param previous Where the hand last played, null if it hasn't yet
+ * @param time Cluster time
+ * @param isRight Which hand
+ * @returns Cost and the hand's new position
+ */
+function handCost(midis: number[], previous: HandPosition | null, time: number, isRight: boolean): { cost: number; position: HandPosition } {
+  const low = midis[0];
+  const high = midis[midis.length - 1];
+  const center = (low + high) / 2;
+
+  // Where the hand is now: where it last played, drifting home the longer it has rested
+  const home = isRight ? HOME_MIDI.right : HOME_MIDI.left;
+  const memory = previous ? Math.exp(-(time - previous.time) / MEMORY_SECONDS) : 0;
+  const reach = previous ? previous.pitches.map(pitch => home + (pitch - home) * memory) : [home];
+
+  let cost = Math.max(0, high - low - MAX_HAND_SPAN) * SPAN_COST;
+  midis.forEach(midi => {
+    cost += nearestDistance(midi, reach) * MOVE_COST;
+    const wrongSide = isRight ? DEFAULT_SPLIT_MIDI - midi : midi - (DEFAULT_SPLIT_MIDI - 1);
+    cost += Math.max(0, wrongSide) * REGISTER_COST;
+  });
+  return { cost, position: { pitches: midis, center, time } };
+}
+
+/**
+ * Cost of a hand taking over lines the other hand was playing
+ * @param midis Pitches the hand plays in this cluster
+ * @param own Where the hand last played
+ * @param other Where the other hand last played
+ * @param previousTime Time of the cluster before
+ * @returns LINE_SWITCH_COST for each note that continues a note the other hand played in
+ *   the cluster before, when the hand itself played nothing as close there
+ */
+function lineSwitchCost(midis: number[], own: HandPosition | null, other: HandPosition | null, previousTime: number): number {
+  if (!other || other.time !== previousTime) return 0;
+  const ownPitches = own && own.time === previousTime ? own.pitches : [];
+  const switched = midis.filter(midi => {
+    const distance = nearestDistance(midi, other.pitches);
+    return distance <= LINE_INTERVAL && distance < nearestDistance(midi, ownPitches);
+  });
+  return switched.length * LINE_SWITCH_COST;
+}
+
+/**
+ * Splits notes between the hands
+ * @param notes Notes to split, in any order
+ * @param options Split-point overrides per measure, and the tempo (or beats and downbeat) and meter to find measures
+ * @returns Notes per hand, in their original order
+ */
+export function splitHands(
+  notes: Note[],
+  { tempo = 120, beats: beatTimes, downbeat, timeSignature = '4/4', overrides = {} }: HandSeparationOptions = {}
+): HandParts {
+  // Measures as the quantizer will draw them: times snap to a sixteenth first
+  const { tempoMap } = createScoreTiming(notes, { tempo, beats: beatTimes, downbeat, timeSignature });
+  const { beats, beatType } = parseTimeSignature(timeSignature);
+  const measureQuarters = (beats * 4) / beatType;
+  const measureOf = (seconds: number) => Math.floor(Math.round(tempoMap.toQuarters(seconds) * 4) / 4 / measureQuarters);
+
+  const pitched: { note: Note; midi: number }[] = [];
+  notes.forEach(note => {
+    const midi = noteNameToMidi(note.pitch);
+    if (midi !== null) pitched.push({ note, midi });
+  });
+  const clusters = clusterNotes(pitched, measureOf, overrides);
+
+  // states[c][k]: best way to reach cluster c with its k lowest notes in the left hand
+  const states: SearchState[][] = [];
+  clusters.forEach((cluster, clusterIndex) => {
+    const midis = cluster.notes.map(entry => entry.midi);
+    const previousStates: SearchState[] = states[clusterIndex - 1] ?? [{ cost: 0, previous: -1, right: null, left: null }];
+    const fixedK = cluster.fixedSplit === null ? null : midis.filter(midi => midi < cluster.fixedSplit!).length;
+
+    const clusterStates: SearchState[] = [];
+    for (let k = 0; k <= midis.length; k++) {
+      if (fixedK !== null && k !== fixedK) {
+        clusterStates.push({ cost: Infinity, previous: 0, right: null, left: null });
+        continue;
+      }
+      let best: SearchState = { cost: Infinity, previous: 0, right: null, left: null };
+      previousStates.forEach((state, previousIndex) => {
+        if (state.cost === Infinity) return;
+        let cost = state.cost;
+        let { right, left } = state;
+        const previousTime = clusters[clusterIndex - 1]?.time ?? -Infinity;
+        if (k > 0) {
+          const hand = handCost(midis.slice(0, k), left, cluster.time, false);
+          cost += hand.cost + lineSwitchCost(midis.slice(0, k), state.left, state.right, previousTime);
+          left = hand.position;
+        }
+        if (k < midis.length) {
+          const hand = handCost(midis.slice(k), right, cluster.time, true);
+          cost += hand.cost + lineSwitchCost(midis.slice(k), state.right, state.left, previousTime);
+          right = hand.position;
+        }
+        if (left && right) cost += Math.max(0, left.center - right.center) * CROSSING_COST;
+        if (cost < best.cost) best = { cost, previous: previousIndex, right, left };
+      });
+      clusterStates.push(best);
+    }
+    states.push(clusterStates);
+  });
+
+  // Trace the cheapest path back and collect the left hand's notes
+  const leftNotes = new Set<Note>();
+  const lastStates = states[states.length - 1] ?? [];
+  let k = lastStates.reduce((bestK, state, index) => (state.cost < lastStates[bestK].cost ? index : bestK), 0);
+  for (let c = clusters.length - 1; c >= 0; c--) {
+    clusters[c].notes.slice(0, k).forEach(entry => leftNotes.add(entry.note));
+    k = states[c][k].previous;
+  }
+
+  const parts: HandParts = { right: [], left: [] };
+  notes.forEach(note => (leftNotes.has(note) ? parts.left : parts.right).push(note));
+  console.log(`[splitHands] ${parts.right.length} right-hand and ${parts.left.length} left-hand notes in ${clusters.length} clusters.`);
+  return parts;
+}
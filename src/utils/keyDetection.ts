@@ -0,0 +1,186 @@
+import type { KeySegment, Note } from './audioAnalysis';
+import { keyNameForTonic, noteNameToMidi } from './musicTheory';
+import type { TempoMap } from './tempoMap';
+
+// --- Key Detection ---
+// Krumhansl-Schmuckler key finding: the duration-weighted pitch-class content of the
+// music is correlated with the major and minor key profiles in all 12 transpositions.
+// For modulations the correlation is taken over overlapping windows, and a Viterbi
+// pass picks the key of each window while charging for every change of key, so a
+// few chromatic bars don't read as a new key. Keys that score almost as well as the
+// chosen one (most often its relative major or minor) mark a region as ambiguous.
+
+// Krumhansl-Kessler probe-tone ratings, from the tonic up
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const WINDOW_SECONDS = 12; // Music each window's key is judged from
+const HOP_SECONDS = 2; // Window spacing - key changes are placed to within this
+const KEY_CHANGE_PENALTY = 1; // Summed correlation a new key must gain over the windows it covers
+const AMBIGUITY_MARGIN = 0.05; // A rival key within this correlation of the chosen one makes it ambiguous
+
+// A key signature to write, from a measure on
+export interface KeyChange {
+  measure: number; // 0-based measure index
+  key: string;
+}
+
+interface KeyScore {
+  tonic: number; // Pitch class, 0 = C
+  isMinor: boolean;
+  score: number; // Correlation with the key's profile, -1 to 1
+}
+
+/**
+ * Pearson correlation of two equally long sequences (0 if either is constant)
+ */
+function correlation(a: number[], b: number[]): number {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  let product = 0;
+  let squaresA = 0;
+  let squaresB = 0;
+  a.forEach((value, index) => {
+    product += (value - meanA) * (b[index] - meanB);
+    squaresA += (value - meanA) ** 2;
+    squaresB += (b[index] - meanB) ** 2;
+  });
+  return squaresA > 0 && squaresB > 0 ? product / Math.sqrt(squaresA * squaresB) : 0;
+}
+
+/**
+ * Scores all 24 keys against a pitch-class distribution
+ * @param weights Weight of each pitch class, C first
+ * @returns One score per key: major keys on C..B, then minor keys on C..B
+ */
+function keyScores(weights: number[]): KeyScore[] {
+  return [false, true].flatMap(isMinor =>
+    Array.from({ length: 12 }, (_, tonic) => {
+      const profile = isMinor ? MINOR_PROFILE : MAJOR_PROFILE;
+      const rotated = weights.map((_, pitchClass) => profile[(pitchClass - tonic + 12) % 12]);
+      return { tonic, isMinor, score: correlation(weights, rotated) };
+    })
+  );
+}
+
+/**
+ * Sums how long each pitch class sounds within a time range
+ * @param notes Notes with their MIDI numbers
+ * @param from Range start in seconds
+ * @param to Range end in seconds
+ * @returns Weight per pitch class, C first; louder notes count slightly more
+ */
+function pitchClassWeights(notes: { note: Note; midi: number }[], from: number, to: number): number[] {
+  const weights = new Array(12).fill(0);
+  notes.forEach(({ note, midi }) => {
+    const overlap = Math.min(to, note.startTime + note.duration) - Math.max(from, note.startTime);
+    if (overlap > 0) weights[midi % 12] += overlap * (0.5 + note.velocity / 254);
+  });
+  return weights;
+}
+
+function pitchedNotes(notes: Note[]): { note: Note; midi: number }[] {
+  return notes.flatMap(note => {
+    const midi = note?.pitch && typeof note.duration === 'number' ? noteNameToMidi(note.pitch) : null; // Any spelling
+    return midi === null ? [] : [{ note, midi }];
+  });
+}
+
+/**
+ * Finds the key of a whole piece
+ * @param notes Notes in any order
+ * @returns Key name, e.g. "Eb Major"; "N/A" without pitched notes
+ */
+export function detectKey(notes: Note[]): string {
+  const pitched = pitchedNotes(notes);
+  const weights = pitchClassWeights(pitched, -Infinity, Infinity);
+  if (weights.every(weight => weight === 0)) return 'N/A';
+  const best = keyScores(weights).reduce((top, key) => (key.score > top.score ? key : top));
+  // Named by the signature with fewer accidentals: "Eb Major", not "D# Major"
+  return keyNameForTonic(best.tonic, best.isMinor);
+}
+
+/**
+ * Follows the key through a piece
+ * @param notes Notes in any order
+ * @returns Key regions in time order, the first starting at 0; empty without pitched notes
+ */
+export function detectKeySegments(notes: Note[]): KeySegment[] {
+  const pitched = pitchedNotes(notes);
+  if (pitched.length === 0) return [];
+  const end = pitched.reduce((last, { note }) => Math.max(last, note.startTime + note.duration), 0);
+
+  // Key scores of each window, centred every hop
+  const windowCount = Math.max(1, Math.ceil(end / HOP_SECONDS));
+  const windowScores = Array.from({ length: windowCount }, (_, index) => {
+    const center = (index + 0.5) * HOP_SECONDS;
+    return keyScores(pitchClassWeights(pitched, center - WINDOW_SECONDS / 2, center + WINDOW_SECONDS / 2));
+  });
+
+  // Viterbi over the 24 keys: total[k] is the best path score ending in key k
+  const keyCount = windowScores[0].length;
+  let total = windowScores[0].map(key => key.score);
+  const cameFrom: number[][] = [];
+  for (let index = 1; index < windowCount; index++) {
+    const bestPrevious = total.reduce((best, score, key) => (score > total[best] ? key : best), 0);
+    const from = Array.from({ length: keyCount }, (_, key) =>
+      total[key] >= total[bestPrevious] - KEY_CHANGE_PENALTY ? key : bestPrevious
+    );
+    cameFrom.push(from);
+    total = from.map((previous, key) => total[previous] - (previous === key ? 0 : KEY_CHANGE_PENALTY) + windowScores[index][key].score);
+  }
+  const path = [total.reduce((best, score, key) => (score > total[best] ? key : best), 0)];
+  for (let index = cameFrom.length - 1; index >= 0; index--) path.unshift(cameFrom[index][path[0]]);
+
+  // Consecutive windows in one key make a region; a change falls between window centres
+  const starts = path.flatMap((key, index) => (index === 0 || key !== path[index - 1] ? [index] : []));
+  const segments = starts.map((startIndex, position) => {
+    const startTime = startIndex * HOP_SECONDS;
+    const endTime = position + 1 < starts.length ? starts[position + 1] * HOP_SECONDS : end;
+    const scores = keyScores(pitchClassWeights(pitched, startTime, endTime));
+    const chosen = scores[path[startIndex]];
+    const rival = scores
+      .filter(key => key !== chosen)
+      .reduce((top, key) => (key.score > top.score ? key : top));
+    const isAmbiguous = rival.score >= chosen.score - AMBIGUITY_MARGIN;
+    return {
+      startTime,
+      key: keyNameForTonic(chosen.tonic, chosen.isMinor),
+      score: chosen.score,
+      isAmbiguous,
+      ...(isAmbiguous ? { alternative: keyNameForTonic(rival.tonic, rival.isMinor) } : {}),
+    };
+  });
+
+  console.log(
+    `[detectKeySegments] ${segments.map(segment => `${segment.key}${segment.isAmbiguous ? '?' : ''} from ${segment.startTime}s`).join(', ')}.`
+  );
+  return segments;
+}
+
+/**
+ * Places key regions in the score: each new key starts at the bar line nearest its region
+ * @param keySegments Key regions in time order (optional)
+ * @param key Key of the whole piece, used without regions
+ * @param tempoMap Conversion between seconds and quarter notes
+ * @param measureQuarters Quarter notes per measure
+ * @param measureCount Number of measures
+ * @returns Key changes in measure order, starting with measure 0
+ */
+export function keyChanges(
+  keySegments: KeySegment[] | undefined,
+  key: string,
+  tempoMap: TempoMap,
+  measureQuarters: number,
+  measureCount: number
+): KeyChange[] {
+  const changes: KeyChange[] = [{ measure: 0, key: keySegments?.[0]?.key ?? key }];
+  (keySegments ?? []).slice(1).forEach(segment => {
+    const measure = Math.round(tempoMap.toQuarters(segment.startTime) / measureQuarters);
+    if (measure <= 0 || measure >= measureCount) return;
+    const last = changes[changes.length - 1];
+    if (last.measure === measure) changes.pop(); // Two changes at one bar: the later wins
+    if (changes[changes.length - 1]?.key !== segment.key) changes.push({ measure, key: segment.key });
+  });
+  return changes;
+}
@@ -0,0 +1,236 @@
+import captureWorkletUrl from '../workers/captureWorklet?worker&url';
+import { CHUNK_OVERLAP_SECONDS, AnalysisChunk } from './chunkedAnalysis';
+import type { AudioAnalysisResult } from './audioAnalysis';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from '../workers/analysisWorker';
+
+// --- Live Transcription ---
+// Audio from a MediaStream is captured by an AudioWorklet and cut into the same
+// overlapping chunks the file analysis uses. Each chunk goes through the analysis
+// worker as soon as enough audio (plus a short lookahead) has arrived, so notes
+// appear on the sheet roughly one chunk behind the player.
+
+const CAPTURE_PROCESSOR_NAME = 'keyscribe-pcm-capture'; // Registered by workers/captureWorklet.ts
+const LIVE_CHUNK_SECONDS = 1; // How much new audio each live update covers
+const LOOKAHEAD_SECONDS = 0.5; // Audio past a chunk's core, so notes starting near its end are seen whole
+const FLUSH_TIMEOUT_MS = 500; // Give up waiting for the worklet's last block after this
+
+export interface LiveTranscriptionOptions {
+  onPartialResult?: (result: AudioAnalysisResult) => void; // Everything transcribed so far
+  onError?: (error: Error) => void; // Analysis failed while recording
+}
+
+export interface LiveTranscriptionSession {
+  sampleRate: number;
+  stop(): Promise<AudioAnalysisResult>; // Stops capturing and resolves with the full transcription
+  cancel(): void; // Stops capturing and discards the transcription
+}
+
+interface CaptureMessage {
+  samples: Float32Array;
+  final: boolean; // Reply to a flush request - nothing more will follow
+}
+
+/**
+ * Starts transcribing a live audio stream
+ * @param stream Microphone stream from getUserMedia (or any other MediaStream, see
+ *   createMediaStreamFromFile). The caller keeps ownership and stops its tracks.
+ * @param options Partial-result and error callbacks
+ * @returns A running session
+ */
+export async function startLiveTranscription(
+  stream: MediaStream,
+  { onPartialResult, onError }: LiveTranscriptionOptions = {}
+): Promise<LiveTranscriptionSession> {
+  const audioContext = new AudioContext();
+  await audioContext.resume(); // The user gesture may have expired during the permission prompt
+  await audioContext.audioWorklet.addModule(captureWorkletUrl);
+
+  const source = audioContext.createMediaStreamSource(stream);
+  const captureNode = new AudioWorkletNode(audioContext, CAPTURE_PROCESSOR_NAME);
+  // The worklet only runs while pulled by the destination; keep it silent
+  const mute = audioContext.createGain();
+  mute.gain.value = 0;
+  source.connect(captureNode).connect(mute).connect(audioContext.destination);
+
+  const worker = new Worker(new URL('../workers/analysisWorker.ts', import.meta.url), { type: 'module' });
+  const { sampleRate } = audioContext;
+
+  // Captured audio still needed by an upcoming chunk window
+  let blocks: Float32Array[] = [];
+  let blocksStart = 0; // Absolute sample index of blocks[0][0]
+  let totalSamples = 0;
+
+  let chunkIndex = 0;
+  let coreStart = 0; // Seconds - start of the next chunk's core
+  let inFlight = false;
+  let stopping = false;
+  let finish: { resolve: (result: AudioAnalysisResult) => void; reject: (error: Error) => void } | null = null;
+
+  const takeSamples = (startSeconds: number, endSeconds: number): Float32Array => {
+    const start = Math.max(blocksStart, Math.floor(startSeconds * sampleRate));
+    const end = Math.min(totalSamples, Math.ceil(endSeconds * sampleRate));
+    const out = new Float32Array(Math.max(0, end - start));
+    let blockStart = blocksStart;
+    for (const block of blocks) {
+      const blockEnd = blockStart + block.length;
+      if (blockEnd > start && blockStart < end) {
+        const from = Math.max(start, blockStart);
+        const to = Math.min(end, blockEnd);
+        out.set(block.subarray(from - blockStart, to - blockStart), from - start);
+      }
+      blockStart = blockEnd;
+    }
+    return out;
+  };
+
+  const dropBefore = (seconds: number) => {
+    const keepFrom = Math.floor(seconds * sampleRate);
+    while (blocks.length > 0 && blocksStart + blocks[0].length <= keepFrom) {
+      blocksStart += blocks[0].length;
+      blocks.shift();
+    }
+  };
+
+  const sendChunk = (chunk: AnalysisChunk) => {
+    const samples = takeSamples(chunk.windowStart, chunk.windowEnd);
+    const request: AnalysisWorkerRequest = { type: 'chunk', chunk, channels: [samples], sampleRate };
+    worker.postMessage(request, [samples.buffer]);
+    inFlight = true;
+    chunkIndex++;
+    coreStart = chunk.coreEnd;
+    dropBefore(coreStart - CHUNK_OVERLAP_SECONDS);
+  };
+
+  // Live chunks don't know how many will follow; the final one (sent on stop) does
+  const sendReadyChunk = () => {
+    if (inFlight || stopping) return;
+    const coreEnd = coreStart + LIVE_CHUNK_SECONDS;
+    if (totalSamples / sampleRate < coreEnd + LOOKAHEAD_SECONDS) return;
+    sendChunk({
+      index: chunkIndex,
+      count: Infinity,
+      windowStart: Math.max(0, coreStart - CHUNK_OVERLAP_SECONDS),
+      windowEnd: coreEnd + LOOKAHEAD_SECONDS,
+      coreStart,
+      coreEnd,
+    });
+  };
+
+  const sendFinalChunk = () => {
+    const end = totalSamples / sampleRate;
+    sendChunk({
+      index: chunkIndex,
+      count: chunkIndex + 1,
+      windowStart: Math.max(0, coreStart - CHUNK_OVERLAP_SECONDS),
+      windowEnd: end,
+      coreStart,
+      coreEnd: Math.max(coreStart, end),
+    });
+  };
+
+  const release = () => {
+    source.disconnect();
+    captureNode.port.onmessage = null;
+    worker.terminate();
+    if (audioContext.state !== 'closed') {
+      audioContext.close().catch(err => console.error("Error closing AudioContext:", err));
+    }
+  };
+
+  let flushed: () => void = () => {};
+  captureNode.port.onmessage = (event: MessageEvent<CaptureMessage>) => {
+    const { samples, final } = event.data;
+    blocks.push(samples);
+    totalSamples += samples.length;
+    if (final) flushed();
+    else sendReadyChunk();
+  };
+
+  worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'partial') {
+      inFlight = false;
+      if (message.result) onPartialResult?.(message.result);
+      if (stopping && finish) sendFinalChunk();
+      else sendReadyChunk();
+    } else if (message.type === 'result') {
+      finish?.resolve(message.result);
+      release();
+    } else if (message.type === 'error') {
+      const error = new Error(message.message);
+      if (finish) {
+        finish.reject(error);
+        release();
+      } else {
+        inFlight = false; // Skip the failed chunk and keep transcribing
+        onError?.(error);
+      }
+    }
+  };
+  worker.onerror = event => {
+    const error = new Error(event.message || 'Live transcription worker failed');
+    if (finish) finish.reject(error);
+    else onError?.(error);
+    release();
+  };
+
+  console.log(`[liveTranscription] Capturing at ${sampleRate}Hz.`);
+
+  return {
+    sampleRate,
+    stop: async () => {
+      stopping = true;
+      source.disconnect();
+
+      // Collect the samples still sitting in the worklet's current block
+      await new Promise<void>(resolve => {
+        flushed = resolve;
+        captureNode.port.postMessage('flush');
+        setTimeout(resolve, FLUSH_TIMEOUT_MS);
+      });
+
+      return new Promise<AudioAnalysisResult>((resolve, reject) => {
+        finish = { resolve, reject };
+        if (!inFlight) sendFinalChunk(); // Otherwise sent once the in-flight chunk returns
+      });
+    },
+    cancel: () => {
+      stopping = true;
+      blocks = [];
+      release();
+    },
+  };
+}
+
+/**
+ * Plays a decoded audio file into a MediaStream - a stand-in for the microphone
+ * that lets tests (and demos) drive a live transcription with known material
+ * @param file Audio file to decode and play
+ * @returns The stream, a promise that settles when playback ends, and a stop function
+ */
+export async function createMediaStreamFromFile(
+  file: File
+): Promise<{ stream: MediaStream; ended: Promise<void>; stop: () => void }> {
+  const context = new AudioContext();
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  const destination = context.createMediaStreamDestination();
+  source.connect(destination);
+
+  const ended = new Promise<void>(resolve => {
+    source.onended = () => resolve();
+  });
+  source.start();
+
+  return {
+    stream: destination.stream,
+    ended,
+    stop: () => {
+      source.onended = null;
+      source.disconnect();
+      context.close().catch(err => console.error("Error closing AudioContext:", err));
+    },
+  };
+}
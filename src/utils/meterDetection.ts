@@ -0,0 +1,199 @@
+import type { Note } from './audioAnalysis';
+import { noteNameToMidi } from './musicTheory';
+
+// --- Meter Detection ---
+// Finds the time signature and the first downbeat from the tracked beats. Each beat gets
+// an accent from what starts on it - loud, long and low notes and changes of harmony
+// tend to open a bar - and the beats are grouped in the twos, threes, fours or fives
+// that line those accents up best. Whether the beats divide in two or in three (onsets
+// between beats at halves or at thirds) decides between simple and compound meters.
+// A first downbeat after the first beat means the piece starts with a pickup.
+
+export interface MeterEstimate {
+  timeSignature: string;
+  downbeat: number; // Index into the beats of the first downbeat
+  confidence: number; // 0-1
+}
+
+interface MeterCandidate {
+  timeSignature: string;
+  beatsPerBar: number;
+  prior: number; // How readily the meter is chosen (common meters win close calls)
+}
+
+const SIMPLE_METERS: MeterCandidate[] = [
+  { timeSignature: '2/4', beatsPerBar: 2, prior: 0.85 },
+  { timeSignature: '3/4', beatsPerBar: 3, prior: 0.95 },
+  { timeSignature: '4/4', beatsPerBar: 4, prior: 1 },
+  { timeSignature: '5/4', beatsPerBar: 5, prior: 0.7 },
+];
+// Beats of compound meters are dotted quarters
+const COMPOUND_METERS: MeterCandidate[] = [
+  { timeSignature: '6/8', beatsPerBar: 2, prior: 1 },
+  { timeSignature: '9/8', beatsPerBar: 3, prior: 0.8 },
+  { timeSignature: '12/8', beatsPerBar: 4, prior: 0.9 },
+];
+const ONE_BEAT_METER = '3/8'; // Compound beats with no grouping: every beat opens a bar
+
+const UNKNOWN_METER: MeterEstimate = { timeSignature: '4/4', downbeat: 0, confidence: 0 };
+
+const ON_BEAT_WINDOW = 0.12; // Fraction of the beat interval within which a note starts on the beat
+const SUBDIVISION_TOLERANCE = 0.05; // Fraction of the beat interval around halves, quarters and thirds
+const COMPOUND_RATIO = 1.5; // Onsets at thirds must outnumber those at halves and quarters by this much
+const MIN_SUBDIVISION_ONSETS = 4; // Fewer onsets between beats say nothing about the meter
+const MIN_CONTRAST = 0.15; // Downbeat accent (in standard deviations) below which bars aren't heard
+const MIN_ACCENT_VARIATION = 0.15; // Accents varying less than this (relative to their mean) group nothing
+const NESTED_CONTRAST_RATIO = 1.15; // A meter must accent its downbeats this much more than one it contains
+const MIN_BARS = 4; // Fewer bars than this lower the confidence
+const MIN_BEATS = 4;
+
+/**
+ * Finds the beat a time falls in
+ * @param beats Beat times, ascending
+ * @param time Time in seconds
+ * @returns Index of the last beat at or before the time (0 before the first)
+ */
+function beatIndexAt(beats: number[], time: number): number {
+  let lo = 0;
+  let hi = beats.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (beats[mid] <= time) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * Scales a feature to a mean of 1, so features count alike
+ */
+function normalizeFeature(values: number[]): number[] {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return mean > 0 ? values.map(value => value / mean) : values;
+}
+
+/**
+ * Scores how strongly each beat sounds like the start of a bar
+ * @param notes Notes with known pitches and their MIDI numbers
+ * @param beats Beat times, ascending
+ * @returns Accent per beat, standardised (mean 0, standard deviation 1), and how much the
+ *   raw accents vary (standard deviation over mean)
+ */
+function beatAccents(notes: { note: Note; midi: number }[], beats: number[]): { accents: number[]; variation: number } {
+  const interval = (index: number) =>
+    index + 1 < beats.length ? beats[index + 1] - beats[index] : beats[index] - beats[index - 1];
+  const loudness = beats.map(() => 0);
+  const length = beats.map(() => 0);
+  const lowest = beats.map(() => Infinity);
+  const pitchClasses = beats.map(() => new Set<number>()); // Sounding during each beat
+
+  notes.forEach(({ note, midi }) => {
+    const before = beatIndexAt(beats, note.startTime);
+    const isNextNearer = before + 1 < beats.length && beats[before + 1] - note.startTime < note.startTime - beats[before];
+    const index = isNextNearer ? before + 1 : before;
+    if (Math.abs(note.startTime - beats[index]) <= ON_BEAT_WINDOW * interval(index)) {
+      loudness[index] += note.velocity / 127;
+      length[index] = Math.max(length[index], Math.min(4, note.duration / interval(index)));
+      lowest[index] = Math.min(lowest[index], midi);
+    }
+    const end = note.startTime + note.duration;
+    for (let beat = beatIndexAt(beats, note.startTime); beat < beats.length && beats[beat] < end; beat++) {
+      pitchClasses[beat].add(midi % 12);
+    }
+  });
+
+  // A bass note below the usual bass line, and a change of harmony from the beat before
+  const lows = lowest.filter(Number.isFinite).sort((a, b) => a - b);
+  const usualLow = lows[Math.floor(lows.length / 2)] ?? 60;
+  const bass = lowest.map(low => (Number.isFinite(low) ? Math.max(0, usualLow + 12 - low) / 12 : 0));
+  const harmony = pitchClasses.map((current, index) => {
+    const previous = pitchClasses[index - 1];
+    if (!previous || current.size === 0 || previous.size === 0) return 0;
+    const shared = [...current].filter(pitchClass => previous.has(pitchClass)).length;
+    return 1 - shared / (current.size + previous.size - shared);
+  });
+
+  const features = [loudness, length, bass, harmony].map(normalizeFeature);
+  const accents = beats.map((_, index) => features.reduce((sum, feature) => sum + feature[index], 0));
+  const mean = accents.reduce((sum, accent) => sum + accent, 0) / accents.length;
+  const spread = Math.sqrt(accents.reduce((sum, accent) => sum + (accent - mean) ** 2, 0) / accents.length);
+  return {
+    accents: accents.map(accent => (spread > 0 ? (accent - mean) / spread : 0)),
+    variation: mean > 0 ? spread / mean : 0,
+  };
+}
+
+/**
+ * Decides whether the beats divide in three (compound meter) rather than two
+ * @param notes Performed notes
+ * @param beats Beat times, ascending
+ * @returns True when onsets between the beats fall mostly at thirds
+ */
+function isCompound(notes: Note[], beats: number[]): boolean {
+  let duple = 0;
+  let triple = 0;
+  notes.forEach(note => {
+    const index = beatIndexAt(beats, note.startTime);
+    if (index + 1 >= beats.length || note.startTime < beats[index]) return;
+    const fraction = (note.startTime - beats[index]) / (beats[index + 1] - beats[index]);
+    const near = (points: number[]) => points.some(point => Math.abs(fraction - point) < SUBDIVISION_TOLERANCE);
+    if (near([1 / 4, 1 / 2, 3 / 4])) duple++;
+    else if (near([1 / 6, 1 / 3, 2 / 3, 5 / 6])) triple++;
+  });
+  return triple >= MIN_SUBDIVISION_ONSETS && triple > duple * COMPOUND_RATIO;
+}
+
+/**
+ * Estimates the meter and the first downbeat of a performance
+ * @param notes Performed notes
+ * @param beats Tracked beat times in seconds, ascending
+ * @returns Time signature, first downbeat and confidence; 4/4 from the first beat, with
+ *   no confidence, when there are too few beats to tell
+ */
+export function detectMeter(notes: Note[], beats: number[]): MeterEstimate {
+  const pitched = notes.flatMap(note => {
+    const midi = noteNameToMidi(note.pitch);
+    return midi === null ? [] : [{ note, midi }];
+  });
+  if (beats.length < MIN_BEATS || pitched.length === 0) return UNKNOWN_METER;
+
+  const { accents, variation } = beatAccents(pitched, beats);
+  const compound = isCompound(notes, beats);
+  const candidates = (compound ? COMPOUND_METERS : SIMPLE_METERS).flatMap(meter =>
+    Array.from({ length: meter.beatsPerBar }, (_, downbeat) => {
+      const downbeatAccents = accents.filter((_, index) => index >= downbeat && (index - downbeat) % meter.beatsPerBar === 0);
+      const contrast = downbeatAccents.reduce((sum, accent) => sum + accent, 0) / downbeatAccents.length;
+      return { meter, downbeat, contrast, score: contrast * meter.prior };
+    })
+  );
+  candidates.sort((a, b) => b.score - a.score);
+
+  // 2/4 and 4/4 from the same beat agree on where bars start; the longer bar wins only
+  // when its downbeats stand out from the shorter bar's other downbeats
+  const nested = (a: (typeof candidates)[number], b: (typeof candidates)[number]) =>
+    a.meter.beatsPerBar % b.meter.beatsPerBar === 0 && (a.downbeat - b.downbeat) % b.meter.beatsPerBar === 0;
+  const best = candidates
+    .filter(candidate => nested(candidates[0], candidate))
+    .reduce((shortest, candidate) =>
+      candidate.meter.beatsPerBar < shortest.meter.beatsPerBar && candidates[0].contrast < candidate.contrast * NESTED_CONTRAST_RATIO
+        ? candidate
+        : shortest
+    );
+
+  const grouping = Math.min(variation / MIN_ACCENT_VARIATION, best.contrast / MIN_CONTRAST);
+  if (compound && grouping < 1) {
+    const confidence = Math.min(1, beats.length / MIN_BARS) * (1 - Math.max(0, grouping));
+    console.log(`[detectMeter] ${ONE_BEAT_METER} (no grouping of compound beats), confidence ${confidence.toFixed(2)}.`);
+    return { timeSignature: ONE_BEAT_METER, downbeat: 0, confidence };
+  }
+
+  // The runner-up is the best reading that puts downbeats elsewhere: readings nested in
+  // each other don't make each other less certain
+  const rival = candidates.find(candidate => !nested(candidate, best) && !nested(best, candidate));
+  const margin = best.score > 0 ? 1 - Math.max(0, rival?.score ?? 0) / best.score : 0;
+  const bars = beats.length / best.meter.beatsPerBar;
+  const confidence = Math.max(0, Math.min(1, margin * Math.min(1, bars / MIN_BARS)));
+
+  console.log(`[detectMeter] ${best.meter.timeSignature} from beat ${best.downbeat} of ${beats.length}, confidence ${confidence.toFixed(2)}.`);
+  return { timeSignature: best.meter.timeSignature, downbeat: best.downbeat, confidence };
+}
@@ -0,0 +1,185 @@
+import type { AudioAnalysisResult, Note, PedalEvent } from './audioAnalysis';
+import { beatQuarters, parseKey, parseTimeSignature } from './musicTheory';
+import { splitHands, HandSplitOverrides } from './handSeparation';
+import { quantizeNotes, QuantizedScore } from './quantization';
+import { tempoMarks, TempoMark } from './tempoMap';
+import { toStaffNotes } from './voiceAssignment';
+
+// --- Standard MIDI File Export ---
+// Writes a Type 1 SMF: a conductor track with the tempo, meter and key, followed by
+// one track per hand so DAWs and notation programs open them as separate staves.
+// Sustain pedal events go on both hands' channels, as the pedal sustains both.
+// Notes are written where the score puts them: quantized on the same timing as the
+// sheet, with a pickup at the end of a first measure of rests, and the tempo marks
+// of the sheet as tempo changes.
+
+const TICKS_PER_QUARTER = 480;
+const PIANO_PROGRAM = 0; // General MIDI Acoustic Grand Piano
+const SUSTAIN_CONTROLLER = 64; // Damper pedal: 127 down, 0 up
+
+interface HandTrack {
+  name: string;
+  channel: number;
+  notes: Note[];
+}
+
+interface MidiEvent {
+  tick: number;
+  order: number; // Tie-break at equal ticks: note-offs and pedal lifts (0) before note-ons and presses (1)
+  data: number[];
+}
+
+/**
+ * Encodes a number as a MIDI variable-length quantity
+ * @param value Non-negative integer
+ * @returns 1-4 bytes, 7 bits each, most significant first
+ */
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function textBytes(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+function metaEvent(type: number, data: number[]): number[] {
+  return [0xff, type, ...variableLength(data.length), ...data];
+}
+
+/**
+ * Serialises events into an MTrk chunk, adding delta times and the end-of-track event
+ * @param events Events with absolute tick times
+ * @returns Chunk bytes including its header
+ */
+function trackChunk(events: MidiEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const body: number[] = [];
+  let lastTick = 0;
+  sorted.forEach(event => {
+    body.push(...variableLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  });
+  body.push(0, ...metaEvent(0x2f, []));
+  return [...textBytes('MTrk'), ...uint32(body.length), ...body];
+}
+
+/**
+ * Builds the conductor track (tempo, time signature, key signature)
+ * @param analysis Transcription to export
+ * @param marks Tempo marks of the score, starting with measure 0
+ * @param measureTicks MIDI ticks per measure
+ * @returns Meter and key at tick 0, and a tempo change at every mark
+ */
+function conductorEvents({ timeSignature, key }: AudioAnalysisResult, marks: TempoMark[], measureTicks: number): MidiEvent[] {
+  const { beats, beatType } = parseTimeSignature(timeSignature);
+  // MIDI clocks (24 per quarter) per metronome click: one felt beat of the meter
+  const clocksPerClick = Math.round(24 * beatQuarters(timeSignature));
+  const { fifths, isMinor } = parseKey(key);
+
+  return [
+    { tick: 0, order: 0, data: metaEvent(0x03, textBytes('KeyScribe Transcription')) },
+    ...marks.map(({ measure, bpm }) => {
+      const microsecondsPerQuarter = Math.round(60_000_000 / bpm);
+      return {
+        tick: measure * measureTicks,
+        order: 0,
+        data: metaEvent(0x51, [
+          (microsecondsPerQuarter >> 16) & 0xff,
+          (microsecondsPerQuarter >> 8) & 0xff,
+          microsecondsPerQuarter & 0xff,
+        ]),
+      };
+    }),
+    { tick: 0, order: 0, data: metaEvent(0x58, [beats, Math.round(Math.log2(beatType)), clocksPerClick, 8]) },
+    { tick: 0, order: 0, data: metaEvent(0x59, [fifths & 0xff, isMinor ? 1 : 0]) },
+  ];
+}
+
+/**
+ * Builds the events of one hand's track
+ * @param hand Track name, channel and notes
+ * @param pedal Sustain pedal events
+ * @param score Quantized notes of the whole transcription
+ * @param toTicks Converts score ticks to MIDI ticks
+ * @returns Track name, program change, pedal and note events
+ */
+function handEvents(hand: HandTrack, pedal: PedalEvent[], score: QuantizedScore, toTicks: (scoreTicks: number) => number): MidiEvent[] {
+  const events: MidiEvent[] = [
+    { tick: 0, order: 0, data: metaEvent(0x03, textBytes(hand.name)) },
+    { tick: 0, order: 0, data: [0xc0 | hand.channel, PIANO_PROGRAM] },
+    ...pedal.map(({ time, isDown }) => ({
+      tick: Math.max(0, toTicks(score.tempoMap.toQuarters(time) * score.ticksPerQuarter)),
+      order: isDown ? 1 : 0,
+      data: [0xb0 | hand.channel, SUSTAIN_CONTROLLER, isDown ? 127 : 0],
+    })),
+  ];
+
+  // A note-off would also silence a re-strike of the same key that started before
+  // it, so each note ends no later than the next note of the same pitch begins
+  const nextStartByPitch = new Map<number, number>();
+  const notes = toStaffNotes(hand.notes, score)
+    .filter(staffNote => staffNote.midi >= 0 && staffNote.midi <= 127)
+    .sort((a, b) => b.start - a.start);
+
+  notes.forEach(({ note, midi, start: scoreStart, end: scoreEnd }) => {
+    const start = toTicks(scoreStart);
+    const nextStart = nextStartByPitch.get(midi) ?? Infinity;
+    const end = Math.min(Math.max(start + 1, toTicks(scoreEnd)), nextStart);
+    nextStartByPitch.set(midi, start);
+    if (end <= start) return; // Duplicate attack at the same tick
+
+    const velocity = Math.min(127, Math.max(1, Math.round(note.velocity)));
+    events.push({ tick: start, order: 1, data: [0x90 | hand.channel, midi, velocity] });
+    events.push({ tick: end, order: 0, data: [0x80 | hand.channel, midi, 0] });
+  });
+
+  return events;
+}
+
+/**
+ * Converts a transcription into a Type 1 Standard MIDI File
+ * @param analysis Transcription to export
+ * @param handSplits User-set split points between the hands, by measure
+ * @returns The file's bytes
+ */
+export function createMidiFile(analysis: AudioAnalysisResult, handSplits: HandSplitOverrides = {}): Uint8Array {
+  const tempo = analysis.tempo > 0 ? analysis.tempo : 120;
+  const timing = { tempo, beats: analysis.beats, downbeat: analysis.downbeat, timeSignature: analysis.timeSignature };
+  const score = quantizeNotes(analysis.notes, timing);
+  const toTicks = (scoreTicks: number) => Math.round((scoreTicks * TICKS_PER_QUARTER) / score.ticksPerQuarter);
+
+  const { right, left } = splitHands(analysis.notes, { ...timing, overrides: handSplits });
+  const hands: HandTrack[] = [
+    { name: 'Right Hand', channel: 0, notes: right },
+    { name: 'Left Hand', channel: 1, notes: left },
+  ];
+
+  const lastEnd = score.notes.reduce((end, quantized) => Math.max(end, quantized.end), 0);
+  const measureCount = Math.max(1, Math.ceil(lastEnd / score.measureTicks));
+  const marks = tempoMarks(score.tempoMap, score.measureTicks / score.ticksPerQuarter, measureCount);
+
+  const tracks = [
+    trackChunk(conductorEvents(analysis, marks, toTicks(score.measureTicks))),
+    ...hands.map(hand => trackChunk(handEvents(hand, analysis.pedal ?? [], score, toTicks))),
+  ];
+  const header = [
+    ...textBytes('MThd'),
+    ...uint32(6),
+    0, 1, // Format 1: simultaneous tracks
+    (tracks.length >> 8) & 0xff, tracks.length & 0xff,
+    (TICKS_PER_QUARTER >> 8) & 0xff, TICKS_PER_QUARTER & 0xff,
+  ];
+
+  console.log(`[createMidiFile] ${analysis.notes.length} notes in ${tracks.length} tracks, ${marks.length} tempo mark(s) from ${marks[0].bpm} BPM.`);
+  return new Uint8Array([...header, ...tracks.flat()]);
+}
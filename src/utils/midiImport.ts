@@ -0,0 +1,295 @@
+import type { AudioAnalysisResult, Note, PedalEvent } from './audioAnalysis';
+import { detectKey, detectKeySegments } from './keyDetection';
+import { beatQuarters, keySignatureName, midiToNoteName } from './musicTheory';
+import { spellNotes } from './pitchSpelling';
+import { tempoCurveFromBeats } from './beatTracking';
+
+// --- Standard MIDI File Import ---
+// Reads Type 0 and Type 1 files (e.g. a take recorded on a digital piano) straight
+// into the transcription shape, so they skip audio analysis entirely. Notes from all
+// tracks and (non-drum) channels are merged; times follow the file's tempo map, and its
+// beats (quarter notes, or dotted quarters in compound meters) are the beats notation is
+// quantized against. Bars start at the beginning of the file, as sequencers write them.
+// Sustain pedal (controller 64) events on any channel are merged into one pedal.
+
+const DEFAULT_MICROSECONDS_PER_QUARTER = 500_000; // 120 BPM, as the SMF spec defines
+const PERCUSSION_CHANNEL = 9; // General MIDI drums (channel 10) have no pitch to engrave
+const SUSTAIN_CONTROLLER = 64;
+const SUSTAIN_THRESHOLD = 64; // Controller values from here up hold the dampers off
+
+interface TempoChange {
+  tick: number;
+  microsecondsPerQuarter: number;
+}
+
+interface RawNote {
+  midi: number;
+  startTick: number;
+  endTick: number;
+  velocity: number;
+}
+
+interface PedalChange {
+  tick: number;
+  isDown: boolean;
+}
+
+interface ParsedTrack {
+  notes: RawNote[];
+  pedal: PedalChange[];
+  tempos: TempoChange[];
+  timeSignature: string | null; // First time signature in the track
+  key: string | null; // First key signature in the track
+}
+
+/**
+ * Sequential big-endian reader over the file's bytes
+ */
+function createReader(bytes: Uint8Array, start = 0, end = bytes.length) {
+  let position = start;
+  const ensure = (count: number) => {
+    if (position + count > end) throw new Error('Invalid MIDI file: unexpected end of data.');
+  };
+  return {
+    get position() {
+      return position;
+    },
+    done: () => position >= end,
+    byte: () => {
+      ensure(1);
+      return bytes[position++];
+    },
+    uint: (count: number) => {
+      ensure(count);
+      let value = 0;
+      for (let i = 0; i < count; i++) value = value * 256 + bytes[position++];
+      return value;
+    },
+    variableLength: () => {
+      let value = 0;
+      for (let i = 0; i < 4; i++) {
+        ensure(1);
+        const b = bytes[position++];
+        value = value * 128 + (b & 0x7f);
+        if ((b & 0x80) === 0) return value;
+      }
+      throw new Error('Invalid MIDI file: malformed variable-length quantity.');
+    },
+    text: (count: number) => {
+      ensure(count);
+      const value = String.fromCharCode(...bytes.subarray(position, position + count));
+      position += count;
+      return value;
+    },
+    skip: (count: number) => {
+      ensure(count);
+      position += count;
+    },
+  };
+}
+
+/**
+ * Parses one MTrk chunk
+ * @param bytes File contents
+ * @param start Offset of the chunk's first event
+ * @param end Offset just past the chunk
+ * @returns Notes and pedal changes (in ticks) and the meta events the transcription needs
+ */
+function parseTrack(bytes: Uint8Array, start: number, end: number): ParsedTrack {
+  const reader = createReader(bytes, start, end);
+  const track: ParsedTrack = { notes: [], pedal: [], tempos: [], timeSignature: null, key: null };
+  // Sounding notes by channel and key; a stack so overlapping re-strikes pair up in order
+  const sounding = new Map<number, { tick: number; velocity: number }[]>();
+  let tick = 0;
+  let runningStatus = 0;
+
+  const noteOff = (channel: number, midi: number) => {
+    const starts = sounding.get(channel * 128 + midi);
+    const noteOn = starts?.shift();
+    if (noteOn) track.notes.push({ midi, startTick: noteOn.tick, endTick: tick, velocity: noteOn.velocity });
+  };
+
+  while (!reader.done()) {
+    tick += reader.variableLength();
+    let status = reader.byte();
+    if (status < 0x80) {
+      // Running status: the byte just read is the first data byte
+      if (runningStatus === 0) throw new Error('Invalid MIDI file: data byte without a status.');
+      status = runningStatus;
+      reader.skip(-1);
+    }
+
+    if (status === 0xff) {
+      const type = reader.byte();
+      const length = reader.variableLength();
+      const dataStart = reader.position;
+      if (type === 0x51 && length === 3) {
+        track.tempos.push({ tick, microsecondsPerQuarter: reader.uint(3) });
+      } else if (type === 0x58 && length >= 2 && track.timeSignature === null) {
+        const numerator = reader.byte();
+        track.timeSignature = `${numerator}/${2 ** reader.byte()}`;
+      } else if (type === 0x59 && length === 2 && track.key === null) {
+        const fifths = (reader.byte() << 24) >> 24; // Signed byte
+        track.key = keySignatureName(fifths, reader.byte() === 1);
+      } else if (type === 0x2f) {
+        break; // End of track
+      }
+      reader.skip(length - (reader.position - dataStart));
+    } else if (status === 0xf0 || status === 0xf7) {
+      reader.skip(reader.variableLength()); // SysEx
+    } else {
+      runningStatus = status;
+      const kind = status & 0xf0;
+      const channel = status & 0x0f;
+      if (kind === 0x90 || kind === 0x80) {
+        const midi = reader.byte();
+        const velocity = reader.byte();
+        if (channel === PERCUSSION_CHANNEL) continue;
+        if (kind === 0x90 && velocity > 0) {
+          const key = channel * 128 + midi;
+          if (!sounding.has(key)) sounding.set(key, []);
+          sounding.get(key)!.push({ tick, velocity });
+        } else {
+          noteOff(channel, midi); // Note-on with velocity 0 is a note-off
+        }
+      } else if (kind === 0xb0) {
+        const controller = reader.byte();
+        const value = reader.byte();
+        if (controller === SUSTAIN_CONTROLLER && channel !== PERCUSSION_CHANNEL) {
+          track.pedal.push({ tick, isDown: value >= SUSTAIN_THRESHOLD });
+        }
+      } else {
+        // Program change and channel pressure carry one data byte, everything else two
+        reader.skip(kind === 0xc0 || kind === 0xd0 ? 1 : 2);
+      }
+    }
+  }
+
+  // Notes never released end with the track
+  sounding.forEach((starts, key) => {
+    while (starts.length > 0) noteOff(Math.floor(key / 128), key % 128);
+  });
+  return track;
+}
+
+/**
+ * Builds a tick-to-seconds converter from a tempo map
+ * @param tempos Tempo changes from all tracks
+ * @param ticksPerQuarter Resolution from the file header
+ * @returns Converter function
+ */
+function createTickConverter(tempos: TempoChange[], ticksPerQuarter: number): (tick: number) => number {
+  const sorted = [...tempos].sort((a, b) => a.tick - b.tick);
+  if (sorted.length === 0 || sorted[0].tick > 0) {
+    sorted.unshift({ tick: 0, microsecondsPerQuarter: sorted[0]?.microsecondsPerQuarter ?? DEFAULT_MICROSECONDS_PER_QUARTER });
+  }
+
+  // Seconds elapsed at the start of each tempo segment
+  const segmentSeconds = [0];
+  for (let i = 1; i < sorted.length; i++) {
+    const ticks = sorted[i].tick - sorted[i - 1].tick;
+    segmentSeconds.push(segmentSeconds[i - 1] + (ticks * sorted[i - 1].microsecondsPerQuarter) / ticksPerQuarter / 1e6);
+  }
+
+  return (tick: number) => {
+    let i = sorted.length - 1;
+    while (i > 0 && sorted[i].tick > tick) i--;
+    return segmentSeconds[i] + ((tick - sorted[i].tick) * sorted[i].microsecondsPerQuarter) / ticksPerQuarter / 1e6;
+  };
+}
+
+/**
+ * Checks whether an uploaded file is a MIDI file rather than audio
+ * @param file Uploaded file
+ * @returns True for .mid/.midi files
+ */
+export function isMidiFile(file: File): boolean {
+  return /\.midi?$/i.test(file.name) || file.type === 'audio/midi' || file.type === 'audio/x-midi';
+}
+
+/**
+ * Parses a Standard MIDI File into a transcription
+ * @param data Contents of a .mid file
+ * @returns Notes, tempo, key and time signature, as audio analysis would report them
+ * @throws Error if the file isn't a readable Standard MIDI File
+ */
+export function parseMidiFile(data: ArrayBuffer): AudioAnalysisResult {
+  const bytes = new Uint8Array(data);
+  const reader = createReader(bytes);
+
+  if (bytes.length < 14 || reader.text(4) !== 'MThd') throw new Error('Not a MIDI file.');
+  const headerLength = reader.uint(4);
+  const format = reader.uint(2);
+  const trackCount = reader.uint(2);
+  const division = reader.uint(2);
+  reader.skip(headerLength - 6);
+  if (format > 2) throw new Error(`Unsupported MIDI file format ${format}.`);
+  if (division & 0x8000) throw new Error('SMPTE-timed MIDI files are not supported.');
+
+  const tracks: ParsedTrack[] = [];
+  while (!reader.done() && tracks.length < trackCount) {
+    const chunkType = reader.text(4);
+    const chunkLength = reader.uint(4);
+    const chunkStart = reader.position;
+    const chunkEnd = Math.min(bytes.length, chunkStart + chunkLength);
+    if (chunkType === 'MTrk') tracks.push(parseTrack(bytes, chunkStart, chunkEnd));
+    reader.skip(chunkEnd - chunkStart); // Unknown chunk types are skipped, per the spec
+  }
+
+  const tempos = tracks.flatMap(track => track.tempos);
+  const toSeconds = createTickConverter(tempos, division);
+
+  const rawNotes = tracks.flatMap(track => track.notes).filter(note => note.endTick > note.startTick);
+  const notes: Note[] = rawNotes
+    .map(note => {
+      const startTime = toSeconds(note.startTick);
+      return {
+        pitch: midiToNoteName(note.midi),
+        startTime,
+        duration: toSeconds(note.endTick) - startTime,
+        velocity: note.velocity,
+      };
+    })
+    .sort((a, b) => a.startTime - b.startTime);
+
+  // Channels (and hands' tracks) repeat the same pedal; half-pedalling sends many values
+  const pedal: PedalEvent[] = [];
+  tracks
+    .flatMap(track => track.pedal)
+    .sort((a, b) => a.tick - b.tick)
+    .forEach(change => {
+      const isDown = pedal[pedal.length - 1]?.isDown ?? false;
+      if (change.isDown !== isDown) pedal.push({ time: toSeconds(change.tick), isDown: change.isDown });
+    });
+
+  const fileTimeSignature = tracks.find(track => track.timeSignature)?.timeSignature ?? null;
+  const timeSignature = fileTimeSignature ?? '4/4';
+
+  // One beat per beat of the meter, through the end of the last note
+  const quartersPerBeat = beatQuarters(timeSignature);
+  const beatTicks = division * quartersPerBeat;
+  const lastTick = rawNotes.reduce((end, note) => Math.max(end, note.endTick), 0);
+  const beats = Array.from({ length: Math.ceil(lastTick / beatTicks) + 1 }, (_, index) => toSeconds(index * beatTicks));
+
+  const firstTempo = [...tempos].sort((a, b) => a.tick - b.tick)[0];
+  const tempo = Math.round(60_000_000 / (firstTempo?.microsecondsPerQuarter ?? DEFAULT_MICROSECONDS_PER_QUARTER));
+  // Files from a digital piano rarely carry a key signature - estimate it, and any
+  // modulations, from the notes
+  const fileKey = tracks.find(track => track.key)?.key ?? null;
+  const key = fileKey ?? detectKey(notes);
+  const keySegments = fileKey ? undefined : detectKeySegments(notes);
+
+  console.log(`[parseMidiFile] Format ${format}, ${tracks.length} tracks, ${notes.length} notes, ${Math.ceil(pedal.length / 2)} pedal regions, ${tempo} BPM, ${timeSignature}, ${key}.`);
+  return {
+    tempo,
+    key,
+    keySegments,
+    timeSignature,
+    notes: spellNotes(notes, key, keySegments),
+    beats,
+    tempoCurve: tempoCurveFromBeats(beats, quartersPerBeat),
+    downbeat: 0,
+    meterConfidence: fileTimeSignature ? 1 : 0, // Stated by the file, or assumed
+    pedal,
+  };
+}
@@ -0,0 +1,254 @@
+// --- Multi-Pitch Estimation ---
+// Iterative harmonic-sum estimation with spectral cancellation (after Klapuri, 2006):
+// the strongest harmonic series is picked, its partials are removed from the
+// residual spectrum, and the search repeats until no candidate is salient enough.
+
+export interface PitchCandidate {
+  midi: number; // MIDI note number (21-108)
+  salience: number; // Weighted harmonic sum, relative units
+  clarity: number; // 0-1: how far the harmonic series stands above the noise (0 at the detection threshold)
+  cents: number; // Deviation of the fundamental's peak from equal temperament
+}
+
+export interface MultiPitchOptions {
+  maxPolyphony?: number; // Maximum simultaneous pitches per frame
+  harmonics?: number; // Number of partials summed per candidate
+  relativeThreshold?: number; // Minimum salience relative to the strongest pitch
+  noiseFactor?: number; // Minimum salience relative to the spectrum's noise level
+  windowSize?: number; // Length of the analysed frame before zero-padding (defaults to the FFT size)
+  sustainThreshold?: number; // Lower minimum relative salience for the pitches already sounding
+  sustainedMidis?: number[]; // Pitches already sounding before this frame
+}
+
+export const PIANO_MIN_MIDI = 21; // A0
+export const PIANO_MAX_MIDI = 108; // C8
+
+const DEFAULT_OPTIONS: Required<Omit<MultiPitchOptions, 'windowSize' | 'sustainedMidis'>> = {
+  maxPolyphony: 6,
+  harmonics: 10,
+  relativeThreshold: 0.25,
+  sustainThreshold: 0.06,
+  noiseFactor: 4,
+};
+
+const MAX_PARTIAL_FREQUENCY = 5000; // Hz - higher partials are mostly noise and inharmonicity
+const QUARTER_TONE_RATIO = Math.pow(2, 1 / 24) - 1;
+
+export function midiToFrequency(midi: number): number {
+  return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+// Partial weighting from Klapuri (2006): favours low partials and penalises very
+// low fundamentals, whose dense harmonic combs otherwise collect unrelated peaks
+function harmonicWeight(f0: number, harmonic: number): number {
+  return (f0 + 27) / (harmonic * f0 + 320);
+}
+
+/**
+ * Finds the strongest bin within a quarter tone of the given frequency
+ * @returns Bin index of the peak, or -1 if the frequency is out of range
+ */
+function findPeakBin(spectrum: Float32Array, frequency: number, binHz: number): number {
+  const centerBin = frequency / binHz;
+  const halfWidth = Math.max(1, centerBin * QUARTER_TONE_RATIO);
+  const lo = Math.max(1, Math.floor(centerBin - halfWidth));
+  const hi = Math.min(spectrum.length - 1, Math.ceil(centerBin + halfWidth));
+  if (lo > hi) return -1;
+
+  let peak = lo;
+  for (let k = lo + 1; k <= hi; k++) {
+    if (spectrum[k] > spectrum[peak]) peak = k;
+  }
+
+  // Only a genuine local maximum counts as a partial - the edge of a neighbouring
+  // note's main lobe does not
+  const isLocalMax = spectrum[peak] >= spectrum[peak - 1] && spectrum[peak] >= (spectrum[peak + 1] ?? 0);
+  return isLocalMax ? peak : -1;
+}
+
+/**
+ * Collects the partial peaks of a candidate fundamental
+ * @returns Peak bin indices (or -1) for harmonics 1..N
+ */
+function harmonicPeaks(spectrum: Float32Array, f0: number, binHz: number, harmonics: number): number[] {
+  const peaks: number[] = [];
+  for (let h = 1; h <= harmonics; h++) {
+    const frequency = h * f0;
+    if (frequency > MAX_PARTIAL_FREQUENCY) break;
+    peaks.push(findPeakBin(spectrum, frequency, binHz));
+  }
+  return peaks;
+}
+
+/**
+ * Measures where a spectral peak really lies, by a parabola through it and its neighbours
+ * @returns Frequency of the peak in Hz
+ */
+function peakFrequency(spectrum: Float32Array, bin: number, binHz: number): number {
+  const [left, centre, right] = [spectrum[bin - 1] ?? 0, spectrum[bin], spectrum[bin + 1] ?? 0];
+  const curvature = left - 2 * centre + right;
+  const offset = curvature < 0 ? (0.5 * (left - right)) / curvature : 0;
+  return (bin + offset) * binHz;
+}
+
+function salienceOf(spectrum: Float32Array, f0: number, peaks: number[]): number {
+  let salience = 0;
+  peaks.forEach((bin, index) => {
+    if (bin >= 0) salience += harmonicWeight(f0, index + 1) * spectrum[bin];
+  });
+  return salience;
+}
+
+/**
+ * Removes a detected harmonic series from the residual spectrum. Partial amplitudes
+ * are smoothed across neighbouring harmonics first, so that partials shared with
+ * other notes (e.g. the fifth's overtones) are only partially cancelled.
+ */
+function cancelHarmonics(residual: Float32Array, peaks: number[], lobeBins: number): void {
+  const amplitudes = peaks.map(bin => (bin >= 0 ? residual[bin] : 0));
+
+  peaks.forEach((bin, index) => {
+    if (bin < 0 || amplitudes[index] <= 0) return;
+    const neighbours = amplitudes.slice(Math.max(0, index - 1), index + 2);
+    const smoothed = neighbours.reduce((sum, val) => sum + val, 0) / neighbours.length;
+    const removal = Math.min(amplitudes[index], smoothed) / amplitudes[index];
+    const gain = 1 - removal;
+
+    // Attenuate the peak and the rest of its main lobe
+    for (let k = Math.max(0, bin - lobeBins); k <= Math.min(residual.length - 1, bin + lobeBins); k++) {
+      residual[k] *= gain;
+    }
+  });
+}
+
+/**
+ * Estimates all pitches sounding in a single magnitude spectrum
+ * @param spectrum Magnitude spectrum (bins 0..N/2-1)
+ * @param sampleRate Sample rate of the analysed audio
+ * @param fftSize FFT size used to compute the spectrum
+ * @param options Estimator tuning
+ * @returns Detected pitches, strongest first, then the sustained pitches that carry on below the threshold
+ */
+export function estimatePitches(
+  spectrum: Float32Array,
+  sampleRate: number,
+  fftSize: number,
+  options: MultiPitchOptions = {}
+): PitchCandidate[] {
+  const { maxPolyphony, harmonics, relativeThreshold, sustainThreshold, noiseFactor } = { ...DEFAULT_OPTIONS, ...options };
+  const binHz = sampleRate / fftSize;
+  // A Hann main lobe spans ±2 bins of the unpadded frame
+  const lobeBins = Math.round((2 * fftSize) / (options.windowSize ?? fftSize));
+  const residual = Float32Array.from(spectrum);
+
+  let meanMagnitude = 0;
+  for (let k = 0; k < spectrum.length; k++) meanMagnitude += spectrum[k];
+  meanMagnitude /= spectrum.length || 1;
+
+  const detected: PitchCandidate[] = [];
+  let strongestSalience = 0;
+
+  for (let iteration = 0; iteration < maxPolyphony; iteration++) {
+    let bestMidi = -1;
+    let bestSalience = 0;
+    let bestNoise = 0;
+    let bestPeaks: number[] = [];
+
+    for (let midi = PIANO_MIN_MIDI; midi <= PIANO_MAX_MIDI; midi++) {
+      if (detected.some(candidate => candidate.midi === midi)) continue;
+      const f0 = midiToFrequency(midi);
+      if (f0 / binHz < 2 || f0 > MAX_PARTIAL_FREQUENCY) continue; // Not resolvable at this FFT size
+
+      const peaks = harmonicPeaks(residual, f0, binHz, harmonics);
+      const salience = salienceOf(residual, f0, peaks);
+      let noiseSalience = 0;
+      peaks.forEach((_, index) => (noiseSalience += harmonicWeight(f0, index + 1) * meanMagnitude * noiseFactor));
+      if (salience > noiseSalience && salience > bestSalience) {
+        bestSalience = salience;
+        bestNoise = noiseSalience;
+        bestMidi = midi;
+        bestPeaks = peaks;
+      }
+    }
+
+    if (bestMidi < 0) break;
+    if (detected.length > 0 && bestSalience < strongestSalience * relativeThreshold) break;
+
+    // Reject "ghost" fundamentals that are only supported by partials of other notes
+    const fundamentalBin = bestPeaks[0];
+    const strongestPartial = Math.max(...bestPeaks.map(bin => (bin >= 0 ? residual[bin] : 0)));
+    if (fundamentalBin < 0 || residual[fundamentalBin] < strongestPartial * 0.1) {
+      cancelHarmonics(residual, bestPeaks, lobeBins);
+      continue;
+    }
+
+    if (detected.length === 0) strongestSalience = bestSalience;
+    const cents = 1200 * Math.log2(peakFrequency(residual, fundamentalBin, binHz) / midiToFrequency(bestMidi));
+    detected.push({ midi: bestMidi, salience: bestSalience, clarity: 1 - bestNoise / bestSalience, cents });
+    cancelHarmonics(residual, bestPeaks, lobeBins);
+  }
+
+  // Hysteresis: a pitch that is already sounding carries on at a lower share of the strongest
+  // pitch than a new one needs to start, measured in what the detected pitches leave over.
+  // Otherwise a louder attack pushes a held note under the threshold and cuts it short.
+  (options.sustainedMidis ?? []).forEach(midi => {
+    // What a detected pitch leaves a semitone away is its own leakage, not a held neighbour
+    if (detected.length === 0 || detected.some(candidate => Math.abs(candidate.midi - midi) <= 1)) return;
+    const f0 = midiToFrequency(midi);
+    if (f0 / binHz < 2 || f0 > MAX_PARTIAL_FREQUENCY) return;
+
+    const peaks = harmonicPeaks(residual, f0, binHz, harmonics);
+    const salience = salienceOf(residual, f0, peaks);
+    let noiseSalience = 0;
+    peaks.forEach((_, index) => (noiseSalience += harmonicWeight(f0, index + 1) * meanMagnitude * noiseFactor));
+    if (salience <= noiseSalience || salience < strongestSalience * sustainThreshold) return;
+    const strongestPartial = Math.max(...peaks.map(bin => (bin >= 0 ? residual[bin] : 0)));
+    if (peaks[0] < 0 || residual[peaks[0]] < strongestPartial * 0.1) return;
+
+    const cents = 1200 * Math.log2(peakFrequency(residual, peaks[0], binHz) / f0);
+    detected.push({ midi, salience, clarity: 1 - noiseSalience / salience, cents });
+  });
+
+  return detected;
+}
+
+/**
+ * Measures how much of a spectrum lies on the partials of the given pitches
+ * @param spectrum Magnitude spectrum (bins 0..N/2-1)
+ * @param midis MIDI note numbers of the sounding pitches
+ * @param sampleRate Sample rate of the analysed audio
+ * @param fftSize FFT size used to compute the spectrum
+ * @param harmonics Number of partials counted per pitch
+ * @returns Share of the power below MAX_PARTIAL_FREQUENCY within a quarter tone of a partial, 0-1
+ *   (0 for a silent spectrum)
+ */
+export function partialShare(
+  spectrum: Float32Array,
+  midis: number[],
+  sampleRate: number,
+  fftSize: number,
+  harmonics = DEFAULT_OPTIONS.harmonics
+): number {
+  const binHz = sampleRate / fftSize;
+  const lastBin = Math.min(spectrum.length - 1, Math.floor(MAX_PARTIAL_FREQUENCY / binHz));
+  const onPartial = new Uint8Array(lastBin + 1);
+  midis.forEach(midi => {
+    const f0 = midiToFrequency(midi);
+    for (let harmonic = 1; harmonic <= harmonics && harmonic * f0 <= MAX_PARTIAL_FREQUENCY; harmonic++) {
+      const centerBin = (harmonic * f0) / binHz;
+      const halfWidth = Math.max(1, centerBin * QUARTER_TONE_RATIO);
+      for (let k = Math.max(1, Math.floor(centerBin - halfWidth)); k <= Math.min(lastBin, Math.ceil(centerBin + halfWidth)); k++) {
+        onPartial[k] = 1;
+      }
+    }
+  });
+
+  let total = 0;
+  let partials = 0;
+  for (let k = 1; k <= lastBin; k++) {
+    const power = spectrum[k] * spectrum[k];
+    total += power;
+    if (onPartial[k]) partials += power;
+  }
+  return total > 0 ? partials / total : 0;
+}
@@ -0,0 +1,222 @@
+// --- Pitch & Key Helpers ---
+// Notes carry their pitch as a name ("C#4", "Eb4") and keys as "<tonic> <Major|Minor>"
+// ("F# Minor"); these convert between them and the numbers file formats use.
+// Spellings are placed on the line of fifths (... Bb F C G D A E B F# ...), where a
+// key's scale is seven neighbouring positions and enharmonics lie 12 apart.
+
+const PITCH_CLASSES: { [name: string]: number } = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+const SHARP_NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']; // As the analysis detects them
+const LINE_OF_FIFTHS_STEPS = ['F', 'C', 'G', 'D', 'A', 'E', 'B']; // Naturals from position -1 to 5
+export const KEY_CENTER_OFFSET = 2; // A major key's scale spans fifths - 1 to fifths + 5
+
+// Position on the circle of fifths (sharps positive, flats negative) of each major
+// tonic by pitch class, choosing the spelling with fewer accidentals (Db over C#)
+const MAJOR_KEY_FIFTHS = [0, -5, 2, -3, 4, -1, 6, 1, -4, 3, -2, 5];
+
+export interface SpelledPitch {
+  step: string; // Letter name, A-G
+  alter: number; // -1 flat, 0 natural, 1 sharp
+  octave: number;
+}
+
+export interface KeySignature {
+  tonic: number; // Pitch class of the tonic, 0 = C
+  isMinor: boolean;
+  fifths: number; // Sharps (positive) or flats (negative) in the signature
+}
+
+/**
+ * Converts a note name to its MIDI number
+ * @param pitch Note name such as "C4", "F#5" or "Bb3"
+ * @returns MIDI note number (C4 = 60), or null if the name can't be parsed
+ */
+export function noteNameToMidi(pitch: string): number | null {
+  const match = pitch.match(/^([A-G])([#b]?)(-?\d+)$/);
+  if (!match) return null;
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  return (parseInt(match[3], 10) + 1) * 12 + PITCH_CLASSES[match[1]] + accidental;
+}
+
+/**
+ * Converts a MIDI number to a note name, before any key is known
+ * @param midi MIDI note number
+ * @returns Note name with sharps, e.g. "C#4" for 61
+ */
+export function midiToNoteName(midi: number): string {
+  return `${SHARP_NOTE_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+/**
+ * Names the key of a key signature the way the analysis reports keys
+ * @param fifths Sharps (positive) or flats (negative) in the signature
+ * @param isMinor Whether the key is minor
+ * @returns e.g. "D Major" for 2 sharps, "Eb Major" for 3 flats, "C# Minor" for 4 sharps
+ */
+export function keySignatureName(fifths: number, isMinor: boolean): string {
+  // The major tonic sits at the signature's position on the line of fifths, the minor three further
+  const { step, alter } = pitchAtLineOfFifths(isMinor ? fifths + 3 : fifths, 60);
+  return `${step}${alter > 0 ? '#' : alter < 0 ? 'b' : ''} ${isMinor ? 'Minor' : 'Major'}`;
+}
+
+/**
+ * Names a key from its tonic, spelled by the signature with fewer accidentals
+ * @param tonic Pitch class of the tonic, 0 = C
+ * @param isMinor Whether the key is minor
+ * @returns e.g. "Eb Major" for 3, "G# Minor" for 8
+ */
+export function keyNameForTonic(tonic: number, isMinor: boolean): string {
+  return keySignatureName(MAJOR_KEY_FIFTHS[isMinor ? (tonic + 3) % 12 : tonic], isMinor);
+}
+
+/**
+ * Parses a detected key into its key signature
+ * @param key Key as reported by the analysis, e.g. "A Minor"
+ * @returns Tonic, mode and number of sharps/flats (C major if unparseable)
+ */
+export function parseKey(key: string): KeySignature {
+  const match = key.trim().match(/^([A-G])([#b]?)\s+(major|minor)$/i);
+  if (!match) return { tonic: 0, isMinor: false, fifths: 0 };
+
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  const tonic = (PITCH_CLASSES[match[1]] + accidental + 12) % 12;
+  const isMinor = match[3].toLowerCase() === 'minor';
+  // A minor key shares its signature with the major key three semitones up
+  const fifths = MAJOR_KEY_FIFTHS[isMinor ? (tonic + 3) % 12 : tonic];
+  return { tonic, isMinor, fifths };
+}
+
+/**
+ * Position of a spelled pitch on the line of fifths
+ * @returns 0 for C, 1 for G, -1 for F, 7 for C#, -2 for Bb, ...
+ */
+export function lineOfFifths({ step, alter }: Pick<SpelledPitch, 'step' | 'alter'>): number {
+  return LINE_OF_FIFTHS_STEPS.indexOf(step) - 1 + 7 * alter;
+}
+
+/**
+ * Spells a MIDI note with the letter name at a given line-of-fifths position
+ * @param position Line-of-fifths position; must match the note's pitch class
+ * @param midi MIDI note number (gives the octave)
+ * @returns Letter name, alteration and octave (B#3 is MIDI 60, Cb5 is MIDI 71)
+ */
+export function pitchAtLineOfFifths(position: number, midi: number): SpelledPitch {
+  const step = LINE_OF_FIFTHS_STEPS[(((position + 1) % 7) + 7) % 7];
+  const alter = Math.floor((position + 1) / 7);
+  return { step, alter, octave: Math.round((midi - PITCH_CLASSES[step] - alter) / 12) - 1 };
+}
+
+/**
+ * Lists the spellings of a MIDI note with at most one sharp or flat
+ * @param midi MIDI note number
+ * @returns Line-of-fifths positions, ascending (two for black keys, one or two for white keys)
+ */
+export function spellingCandidates(midi: number): number[] {
+  // Positions of a pitch class repeat every 12; -8 (Fb) to 12 (B#) are the single accidentals
+  const position = ((midi % 12) * 7) % 12; // 7 is its own inverse mod 12
+  return [position - 12, position, position + 12].filter(candidate => candidate >= -8 && candidate <= 12);
+}
+
+/**
+ * Spells a MIDI note for notation by the key alone: the spelling nearest the key's scale
+ * @param midi MIDI note number
+ * @param fifths Key signature (sharps positive, flats negative)
+ * @returns Letter name, alteration and octave
+ */
+export function spellMidi(midi: number, fifths: number): SpelledPitch {
+  return spellMidiNear(midi, fifths + KEY_CENTER_OFFSET, fifths);
+}
+
+/**
+ * Spells a MIDI note at the candidate nearest a line-of-fifths position
+ * @param midi MIDI note number
+ * @param center Target position, e.g. the key's centre or the centre of recent harmony
+ * @param fifths Key signature, breaking ties towards its side (sharps or flats)
+ * @returns Letter name, alteration and octave
+ */
+export function spellMidiNear(midi: number, center: number, fifths: number): SpelledPitch {
+  const best = spellingCandidates(midi).reduce((bestSoFar, position) => {
+    const distance = Math.abs(position - center) - Math.abs(bestSoFar - center);
+    if (distance < -1e-9) return position;
+    if (distance > 1e-9) return bestSoFar;
+    return (fifths < 0 ? position < bestSoFar : position > bestSoFar) ? position : bestSoFar;
+  });
+  return pitchAtLineOfFifths(best, midi);
+}
+
+/**
+ * Alteration the key signature gives a letter name
+ * @param step Letter name, A-G
+ * @param fifths Key signature (sharps positive, flats negative)
+ * @returns 1 if the signature sharpens it, -1 if it flattens it, else 0
+ */
+export function keySignatureAlter(step: string, fifths: number): number {
+  const position = LINE_OF_FIFTHS_STEPS.indexOf(step); // Sharps are added F first, flats B first
+  if (fifths > 0) return position < fifths ? 1 : 0;
+  if (fifths < 0) return position >= 7 + fifths ? -1 : 0;
+  return 0;
+}
+
+/**
+ * Parses a note name into its spelling
+ * @param pitch Note name such as "C4", "F#5" or "Bb3"
+ * @returns Letter name, alteration and octave, or null if the name can't be parsed
+ */
+export function parseNoteName(pitch: string): SpelledPitch | null {
+  const match = pitch.match(/^([A-G])([#b]?)(-?\d+)$/);
+  if (!match) return null;
+  return { step: match[1], alter: match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0, octave: parseInt(match[3], 10) };
+}
+
+/**
+ * Writes a spelling as a note name
+ * @returns e.g. "Eb4"
+ */
+export function spelledNoteName({ step, alter, octave }: SpelledPitch): string {
+  return `${step}${alter > 0 ? '#' : alter < 0 ? 'b' : ''}${octave}`;
+}
+
+/**
+ * Parses a time signature string
+ * @param timeSignature Meter such as "3/4" or "6/8"
+ * @returns Beats per bar and beat unit (4/4 if unparseable)
+ */
+export function parseTimeSignature(timeSignature: string): { beats: number; beatType: number } {
+  const match = timeSignature.match(/^(\d+)\/(\d+)$/);
+  if (!match) return { beats: 4, beatType: 4 };
+  return { beats: parseInt(match[1], 10), beatType: parseInt(match[2], 10) };
+}
+
+/**
+ * Length of the felt beat of a meter: a dotted quarter in compound meters (3/8, 6/8,
+ * 9/8, 12/8), otherwise the beat unit of the time signature
+ * @param timeSignature Meter such as "3/4" or "6/8"
+ * @returns Beat length in quarter notes
+ */
+export function beatQuarters(timeSignature: string): number {
+  const { beats, beatType } = parseTimeSignature(timeSignature);
+  if (beatType === 8 && beats % 3 === 0) return 1.5;
+  return 4 / beatType;
+}
+
+// The note a metronome mark counts, as ABC writes it (Q:) and as MusicXML names it (<beat-unit>)
+export interface TempoUnit {
+  quarters: number; // Length in quarter notes
+  abc: string; // e.g. "3/8"
+  type: string; // e.g. "quarter"
+  isDotted: boolean;
+}
+
+/**
+ * Chooses the note a metronome mark counts for a meter: its felt beat where that is
+ * a half, dotted quarter or eighth note, otherwise a quarter
+ * @param timeSignature Meter such as "3/4" or "6/8"
+ * @returns The counted note
+ */
+export function tempoUnit(timeSignature: string): TempoUnit {
+  switch (beatQuarters(timeSignature)) {
+    case 2: return { quarters: 2, abc: '1/2', type: 'half', isDotted: false };
+    case 1.5: return { quarters: 1.5, abc: '3/8', type: 'quarter', isDotted: true };
+    case 0.5: return { quarters: 0.5, abc: '1/8', type: 'eighth', isDotted: false };
+    default: return { quarters: 1, abc: '1/4', type: 'quarter', isDotted: false };
+  }
+}
@@ -0,0 +1,356 @@
+import type { AudioAnalysisResult } from './audioAnalysis';
+import { parseKey, parseTimeSignature, KeySignature, SpelledPitch, tempoUnit } from './musicTheory';
+import { splitHands, HandSplitOverrides } from './handSeparation';
+import { assignVoices, toStaffNotes, ChordGroup } from './voiceAssignment';
+import { tempoMarks } from './tempoMap';
+import { keyChanges } from './keyDetection';
+import { pedalMarks, PedalMark } from './pedalDetection';
+import {
+  quantizeNotes,
+  splitIntoNoteValues,
+  splitIntoSegments,
+  splitRest,
+  NoteValue,
+  QuantizedScore,
+  TICKS_PER_QUARTER,
+} from './quantization';
+
+// --- MusicXML Export ---
+// Serialises a transcription as a MusicXML 4.0 partwise score: one piano part on a
+// grand staff. Each staff has a main voice holding the moving line's chords and rests,
+// plus a second voice for notes that sustain underneath it (see voiceAssignment). Rhythm
+// comes from the shared quantizer, which also decides where notes split into tied
+// segments and triplets.
+
+const DIVISIONS = TICKS_PER_QUARTER; // MusicXML divisions are quantizer ticks
+
+interface StaffVoice {
+  staff: number; // 1 = treble, 2 = bass
+  voice: number; // MusicXML voice number, unique across the part
+  isMain: boolean; // Gaps in the main voice are rests; in the others they are skipped
+  groups: ChordGroup[];
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Writes a sustain pedal mark under the bass staff that also presses or lifts the pedal in playback
+ * @param mark The pedal event
+ * @param offset Ticks from the measure's start
+ * @returns XML lines
+ */
+function pedalDirection(mark: PedalMark, offset: number): string[] {
+  return [
+    '<direction placement="below">',
+    '  <direction-type>',
+    `    <pedal type="${mark.isDown ? 'start' : 'stop'}" line="no"/>`,
+    '  </direction-type>',
+    ...(offset > 0 ? [`  <offset sound="yes">${offset}</offset>`] : []),
+    '  <staff>2</staff>',
+    `  <sound damper-pedal="${mark.isDown ? 'yes' : 'no'}"/>`,
+    '</direction>',
+  ];
+}
+
+/**
+ * Writes a metronome mark that also sets the playback tempo
+ * @param bpm Quarter notes per minute
+ * @param timeSignature Meter of the piece: the mark counts its beat (see tempoUnit)
+ * @returns XML lines
+ */
+function tempoDirection(bpm: number, timeSignature: string): string[] {
+  const unit = tempoUnit(timeSignature);
+  return [
+    '<direction placement="above">',
+    '  <direction-type>',
+    '    <metronome>',
+    `      <beat-unit>${unit.type}</beat-unit>`,
+    ...(unit.isDotted ? ['      <beat-unit-dot/>'] : []),
+    `      <per-minute>${Math.round(bpm / unit.quarters)}</per-minute>`,
+    '    </metronome>',
+    '  </direction-type>',
+    '  <staff>1</staff>',
+    `  <sound tempo="${bpm}"/>`,
+    '</direction>',
+  ];
+}
+
+/**
+ * Writes the <note> elements of one written value of a chord (or a rest when pitches is empty)
+ * @param pitches Spelled pitches of the chord, ascending
+ * @param value Written value
+ * @param start Start of the value in divisions (places triplet brackets)
+ * @param voice Voice the chord belongs to
+ * @param tieStop Whether the value continues a tied note
+ * @param tieStart Whether the value is tied to the next one
+ * @returns XML lines
+ */
+function noteElements(
+  pitches: SpelledPitch[],
+  value: NoteValue,
+  start: number,
+  voice: StaffVoice,
+  tieStop: boolean,
+  tieStart: boolean
+): string[] {
+  // Triplet brackets span one beat
+  const tuplets = value.isTuplet
+    ? [start % DIVISIONS === 0 && 'start', (start + value.ticks) % DIVISIONS === 0 && 'stop'].filter(Boolean)
+    : [];
+  const rhythmLines = [
+    `<type>${value.type}</type>`,
+    ...Array(value.dots).fill('<dot/>'),
+    ...(value.isTuplet
+      ? ['<time-modification>', '  <actual-notes>3</actual-notes>', '  <normal-notes>2</normal-notes>', '</time-modification>']
+      : []),
+  ];
+  const ties = pitches.length > 0 ? [tieStop && 'stop', tieStart && 'start'].filter(Boolean) : [];
+
+  const element = (pitchLines: string[], isChordTone: boolean) => {
+    // Only the first note of a chord carries the bracket
+    const notations = [
+      ...ties.map(type => `<tied type="${type}"/>`),
+      ...(isChordTone ? [] : tuplets.map(type => `<tuplet type="${type}" bracket="yes"/>`)),
+    ];
+    return [
+      '<note>',
+      ...(isChordTone ? ['  <chord/>'] : []),
+      ...pitchLines.map(line => `  ${line}`),
+      `  <duration>${value.ticks}</duration>`,
+      ...ties.map(type => `  <tie type="${type}"/>`),
+      `  <voice>${voice.voice}</voice>`,
+      ...rhythmLines.map(line => `  ${line}`),
+      `  <staff>${voice.staff}</staff>`,
+      ...(notations.length > 0 ? ['  <notations>', ...notations.map(line => `    ${line}`), '  </notations>'] : []),
+      '</note>',
+    ];
+  };
+
+  if (pitches.length === 0) return element(['<rest/>'], false);
+
+  return pitches.flatMap(({ step, alter, octave }, index) => {
+    const pitchLines = [
+      '<pitch>',
+      `  <step>${step}</step>`,
+      ...(alter !== 0 ? [`  <alter>${alter}</alter>`] : []),
+      `  <octave>${octave}</octave>`,
+      '</pitch>',
+    ];
+    return element(pitchLines, index > 0);
+  });
+}
+
+/**
+ * Writes one voice's contents for one measure
+ * @param voice The voice
+ * @param score Quantized score, for the beat grid
+ * @param measureStart Measure start in divisions
+ * @param measureEnd Measure end in divisions
+ * @returns XML lines; gaps are rests in the main voice and <forward> in the others,
+ *   which are left out entirely (no lines) in measures where they have no notes
+ */
+function voiceMeasure(
+  voice: StaffVoice,
+  score: QuantizedScore,
+  measureStart: number,
+  measureEnd: number
+): string[] {
+  const lines: string[] = [];
+  const isMainVoice = voice.isMain;
+  const groups = voice.groups.filter(group => group.end > measureStart && group.start < measureEnd);
+  if (!isMainVoice && groups.length === 0) return [];
+
+  if (isMainVoice && groups.length === 0) {
+    // Whole-measure rest, whatever the meter
+    return [
+      '<note>',
+      '  <rest measure="yes"/>',
+      `  <duration>${measureEnd - measureStart}</duration>`,
+      `  <voice>${voice.voice}</voice>`,
+      `  <staff>${voice.staff}</staff>`,
+      '</note>',
+    ];
+  }
+
+  // Writes a span as tied segments and note values (rests are simply consecutive)
+  const writeSpan = (pitches: SpelledPitch[], from: number, to: number, tiedIn: boolean, tiedOut: boolean) => {
+    const pieces = splitIntoSegments(score, from, to).flatMap(segment => {
+      let position = segment.start;
+      return splitIntoNoteValues(segment.end - segment.start, segment.isTuplet).map(value => {
+        const piece = { value, start: position };
+        position += value.ticks;
+        return piece;
+      });
+    });
+    pieces.forEach(({ value, start }, index) => {
+      const tieStop = index > 0 || tiedIn;
+      const tieStart = index < pieces.length - 1 || tiedOut;
+      lines.push(...noteElements(pitches, value, start, voice, tieStop, tieStart));
+    });
+  };
+
+  const fillGap = (from: number, to: number) => {
+    if (to <= from) return;
+    if (isMainVoice) {
+      splitRest(from, to).forEach(([restStart, restEnd]) => writeSpan([], restStart, restEnd, false, false));
+    } else {
+      lines.push('<forward>', `  <duration>${to - from}</duration>`, `  <voice>${voice.voice}</voice>`, `  <staff>${voice.staff}</staff>`, '</forward>');
+    }
+  };
+
+  let position = measureStart;
+  groups.forEach(group => {
+    const start = Math.max(group.start, measureStart);
+    const end = Math.min(group.end, measureEnd);
+    fillGap(position, start);
+    writeSpan(group.pitches, start, end, group.start < measureStart, group.end > measureEnd);
+    position = end;
+  });
+  fillGap(position, measureEnd);
+
+  return lines;
+}
+
+/**
+ * Converts a transcription into a MusicXML 4.0 partwise document
+ * @param analysis Transcription to export
+ * @param title Work title shown on the score
+ * @param handSplits User-set split points between the hands, by measure
+ * @returns The MusicXML document
+ */
+export function createMusicXml(
+  analysis: AudioAnalysisResult,
+  title = 'KeyScribe Transcription',
+  handSplits: HandSplitOverrides = {}
+): string {
+  const tempo = analysis.tempo > 0 ? analysis.tempo : 120;
+  const { beats, beatType } = parseTimeSignature(analysis.timeSignature);
+  const timing = { tempo, beats: analysis.beats, downbeat: analysis.downbeat, timeSignature: analysis.timeSignature };
+  const score = quantizeNotes(analysis.notes, timing);
+  const measureLength = score.measureTicks;
+  const hasPickup = score.startTick > 0;
+
+  const { right, left } = splitHands(analysis.notes, {
+    ...timing,
+    timeSignature: analysis.timeSignature,
+    overrides: handSplits,
+  });
+  const voices: StaffVoice[] = [right, left].flatMap((notes, staffIndex) =>
+    assignVoices(toStaffNotes(notes, score)).map((groups, voiceIndex) => ({
+      staff: staffIndex + 1,
+      voice: staffIndex * 4 + voiceIndex + 1, // 1-2 treble, 5-6 bass, as notation programs number them
+      isMain: voiceIndex === 0,
+      groups,
+    }))
+  );
+
+  const lastEnd = voices.reduce((end, voice) => Math.max(end, voice.groups[voice.groups.length - 1]?.end ?? 0), 0);
+  const measureCount = Math.max(1, Math.ceil(lastEnd / measureLength));
+  const tempoByMeasure = new Map(
+    tempoMarks(score.tempoMap, measureLength / TICKS_PER_QUARTER, measureCount).map(mark => [mark.measure, mark.bpm])
+  );
+  const keyByMeasure = new Map(
+    keyChanges(analysis.keySegments, analysis.key, score.tempoMap, measureLength / TICKS_PER_QUARTER, measureCount).map(
+      change => [change.measure, parseKey(change.key)]
+    )
+  );
+  const pedal = pedalMarks(analysis.pedal, score.tempoMap);
+  const keyLines = ({ fifths, isMinor }: KeySignature) => [
+    '  <key>',
+    `    <fifths>${fifths}</fifths>`,
+    `    <mode>${isMinor ? 'minor' : 'major'}</mode>`,
+    '  </key>',
+  ];
+
+  const measures: string[] = [];
+  for (let m = 0; m < measureCount; m++) {
+    const measureStart = m === 0 ? score.startTick : m * measureLength; // A pickup measure is short
+    const measureEnd = (m + 1) * measureLength;
+    const lines: string[] = [];
+
+    const measureKey = keyByMeasure.get(m);
+    if (m === 0) {
+      lines.push(
+        '<attributes>',
+        `  <divisions>${DIVISIONS}</divisions>`,
+        ...keyLines(measureKey!),
+        '  <time>',
+        `    <beats>${beats}</beats>`,
+        `    <beat-type>${beatType}</beat-type>`,
+        '  </time>',
+        '  <staves>2</staves>',
+        '  <clef number="1">',
+        '    <sign>G</sign>',
+        '    <line>2</line>',
+        '  </clef>',
+        '  <clef number="2">',
+        '    <sign>F</sign>',
+        '    <line>4</line>',
+        '  </clef>',
+        '</attributes>'
+      );
+    } else if (measureKey) {
+      lines.push('<attributes>', ...keyLines(measureKey), '</attributes>');
+    }
+    const measureTempo = tempoByMeasure.get(m);
+    if (measureTempo !== undefined) lines.push(...tempoDirection(measureTempo, analysis.timeSignature));
+    // Pedal marks are placed from the measure's start; any after the last note go in the last measure
+    pedal
+      .filter(mark => Math.min(measureCount - 1, Math.floor(mark.tick / measureLength)) === m)
+      .forEach(mark => lines.push(...pedalDirection(mark, Math.min(measureEnd, Math.max(measureStart, mark.tick)) - measureStart)));
+
+    let hasVoice = false;
+    voices.forEach(voice => {
+      const voiceLines = voiceMeasure(voice, score, measureStart, measureEnd);
+      if (voiceLines.length === 0) return;
+      // Every voice fills the whole measure, so the next one starts by rewinding a full measure
+      if (hasVoice) lines.push('<backup>', `  <duration>${measureEnd - measureStart}</duration>`, '</backup>');
+      lines.push(...voiceLines);
+      hasVoice = true;
+    });
+
+    if (m === measureCount - 1) {
+      lines.push('<barline location="right">', '  <bar-style>light-heavy</bar-style>', '</barline>');
+    }
+
+    // A pickup is measure 0, left out of the numbering, so the first full measure is 1
+    const numbering = hasPickup && m === 0 ? 'number="0" implicit="yes"' : `number="${hasPickup ? m : m + 1}"`;
+    measures.push(`    <measure ${numbering}>`, ...lines.map(line => `      ${line}`), '    </measure>');
+  }
+
+  console.log(`[createMusicXml] ${analysis.notes.length} notes in ${measureCount} measures, ${voices.length} voices.`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="4.0">',
+    '  <work>',
+    `    <work-title>${escapeXml(title)}</work-title>`,
+    '  </work>',
+    '  <identification>',
+    '    <encoding>',
+    '      <software>KeyScribe</software>',
+    `      <encoding-date>${new Date().toISOString().slice(0, 10)}</encoding-date>`,
+    '    </encoding>',
+    '  </identification>',
+    '  <part-list>',
+    '    <score-part id="P1">',
+    '      <part-name>Piano</part-name>',
+    '      <score-instrument id="P1-I1">',
+    '        <instrument-name>Piano</instrument-name>',
+    '      </score-instrument>',
+    '      <midi-instrument id="P1-I1">',
+    '        <midi-channel>1</midi-channel>',
+    '        <midi-program>1</midi-program>',
+    '      </midi-instrument>',
+    '    </score-part>',
+    '  </part-list>',
+    '  <part id="P1">',
+    ...measures,
+    '  </part>',
+    '</score-partwise>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,229 @@
+import type { SpelledPitch } from './musicTheory';
+
+// --- MusicXML Parsing ---
+// Reads a partwise MusicXML document (from KeyScribe or another notation program)
+// into measures of timed notes grouped by staff and voice, ready for engraving.
+// Only the first part is read; KeyScribe scores are a single piano part.
+
+export type ClefSign = 'treble' | 'bass' | 'alto' | 'tenor';
+
+export interface ScoreNote {
+  start: number; // Divisions from the start of the measure
+  duration: number; // Divisions
+  staff: number; // 1-based
+  voice: string;
+  pitches: SpelledPitch[]; // Empty for rests; several for a chord
+  accidentals: (string | null)[]; // Printed accidental per pitch, when the file states one
+  tieStart: boolean[]; // Per pitch
+  tieStop: boolean[];
+  type: string | null; // Note type ("quarter", "eighth", ...), when given
+  dots: number;
+  isMeasureRest: boolean;
+  tuplet: { actual: number; normal: number } | null; // From <time-modification>
+}
+
+export interface ScorePedal {
+  start: number; // Divisions from the start of the measure
+  staff: number; // 1-based staff the mark is written under
+  isDown: boolean;
+}
+
+export interface ScoreMeasure {
+  number: string;
+  divisions: number; // Per quarter note
+  fifths: number;
+  beats: number;
+  beatType: number;
+  clefs: ClefSign[]; // Per staff (index 0 = staff 1)
+  attributesChanged: boolean; // Key, time or clef differs from the previous measure
+  notes: ScoreNote[]; // Ordered by staff, voice, then start
+  pedals: ScorePedal[]; // Sustain pedal marks, in start order
+}
+
+export interface ParsedScore {
+  title: string | null;
+  staves: number;
+  measures: ScoreMeasure[];
+}
+
+const CLEF_SIGNS: { [key: string]: ClefSign } = { 'G2': 'treble', 'F4': 'bass', 'C3': 'alto', 'C4': 'tenor' };
+// Pedal states a <pedal> type leaves behind, in order; "change" lifts and presses again
+const PEDAL_TYPES: { [type: string]: boolean[] } = { start: [true], stop: [false], change: [false, true], resume: [true], discontinue: [false] };
+
+function childText(element: Element, selector: string): string | null {
+  return element.querySelector(selector)?.textContent?.trim() ?? null;
+}
+
+function childNumber(element: Element, selector: string, fallback: number): number {
+  const value = parseFloat(childText(element, selector) ?? '');
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Reads one <note> element
+ * @returns The note, or null for grace and cue notes (which take no time)
+ */
+function parseNote(element: Element, start: number, defaultStaff: number): ScoreNote | null {
+  if (element.querySelector(':scope > grace, :scope > cue')) return null;
+
+  const pitchElement = element.querySelector(':scope > pitch');
+  const pitches: SpelledPitch[] = pitchElement
+    ? [
+        {
+          step: childText(pitchElement, 'step') ?? 'C',
+          alter: Math.round(childNumber(pitchElement, 'alter', 0)),
+          octave: childNumber(pitchElement, 'octave', 4),
+        },
+      ]
+    : []; // <rest/>, or <unpitched/> which we also draw as a rest
+
+  const tieTypes = Array.from(element.querySelectorAll(':scope > tie, :scope > notations > tied')).map(tie =>
+    tie.getAttribute('type')
+  );
+  const timeModification = element.querySelector(':scope > time-modification');
+  const restElement = element.querySelector(':scope > rest');
+
+  return {
+    start,
+    duration: childNumber(element, ':scope > duration', 0),
+    staff: childNumber(element, ':scope > staff', defaultStaff),
+    voice: childText(element, ':scope > voice') ?? '1',
+    pitches,
+    accidentals: pitches.map(() => childText(element, ':scope > accidental')),
+    tieStart: pitches.map(() => tieTypes.includes('start')),
+    tieStop: pitches.map(() => tieTypes.includes('stop')),
+    type: childText(element, ':scope > type'),
+    dots: element.querySelectorAll(':scope > dot').length,
+    isMeasureRest: restElement?.getAttribute('measure') === 'yes',
+    tuplet: timeModification
+      ? {
+          actual: childNumber(timeModification, 'actual-notes', 3),
+          normal: childNumber(timeModification, 'normal-notes', 2),
+        }
+      : null,
+  };
+}
+
+/**
+ * Reads the sustain pedal marks of one <direction> element
+ * @param element The direction
+ * @param position Divisions from the start of the measure where the direction stands
+ * @param defaultStaff Staff for directions that don't name one
+ * @returns The marks; empty for other directions
+ */
+function parsePedals(element: Element, position: number, defaultStaff: number): ScorePedal[] {
+  const start = position + childNumber(element, ':scope > offset', 0);
+  const staff = childNumber(element, ':scope > staff', defaultStaff);
+  return Array.from(element.querySelectorAll(':scope > direction-type > pedal'))
+    .filter(pedal => pedal.getAttribute('sostenuto') !== 'yes')
+    .flatMap(pedal => PEDAL_TYPES[pedal.getAttribute('type') ?? ''] ?? [])
+    .map(isDown => ({ start: Math.max(0, start), staff, isDown }));
+}
+
+/**
+ * Parses a MusicXML document
+ * @param xml Partwise MusicXML text
+ * @returns The first part's measures
+ * @throws Error if the text isn't partwise MusicXML
+ */
+export function parseMusicXml(xml: string): ParsedScore {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error('Invalid MusicXML: the document is not well-formed XML.');
+  if (doc.documentElement.nodeName === 'score-timewise') {
+    throw new Error('Timewise MusicXML is not supported - export the score as partwise.');
+  }
+  if (doc.documentElement.nodeName !== 'score-partwise') throw new Error('Not a MusicXML score.');
+
+  const part = doc.querySelector('part');
+  if (!part) throw new Error('Invalid MusicXML: the score has no parts.');
+  if (doc.querySelectorAll('part').length > 1) {
+    console.warn('[parseMusicXml] Score has several parts; only the first is shown.');
+  }
+
+  const title = childText(doc.documentElement, 'work > work-title') ?? childText(doc.documentElement, 'movement-title');
+  let divisions = 1;
+  let fifths = 0;
+  let beats = 4;
+  let beatType = 4;
+  let staves = 1;
+  let clefs: ClefSign[] = ['treble'];
+
+  const measures: ScoreMeasure[] = [];
+  part.querySelectorAll(':scope > measure').forEach(measureElement => {
+    let attributesChanged = measures.length === 0;
+    const notes: ScoreNote[] = [];
+    const pedals: ScorePedal[] = [];
+    let position = 0;
+    let lastNote: ScoreNote | null = null;
+
+    Array.from(measureElement.children).forEach(child => {
+      switch (child.nodeName) {
+        case 'attributes': {
+          divisions = childNumber(child, 'divisions', divisions);
+          const newStaves = childNumber(child, 'staves', staves);
+          if (newStaves !== staves) {
+            staves = newStaves;
+            clefs = Array.from({ length: staves }, (_, index) => clefs[index] ?? (index === 0 ? 'treble' : 'bass'));
+          }
+          const keyElement = child.querySelector('key');
+          if (keyElement) fifths = childNumber(keyElement, 'fifths', fifths);
+          const timeElement = child.querySelector('time');
+          if (timeElement) {
+            beats = childNumber(timeElement, 'beats', beats);
+            beatType = childNumber(timeElement, 'beat-type', beatType);
+          }
+          child.querySelectorAll('clef').forEach(clef => {
+            const staffIndex = parseInt(clef.getAttribute('number') ?? '1', 10) - 1;
+            const sign = CLEF_SIGNS[`${childText(clef, 'sign')}${childText(clef, 'line') ?? ''}`];
+            if (sign && staffIndex >= 0 && staffIndex < staves) clefs[staffIndex] = sign;
+          });
+          attributesChanged = true;
+          break;
+        }
+        case 'note': {
+          const isChordTone = child.querySelector(':scope > chord') !== null;
+          const note = parseNote(child, isChordTone && lastNote ? lastNote.start : position, 1);
+          if (!note) break;
+          if (isChordTone && lastNote) {
+            // Chord tones share the first note's timing
+            lastNote.pitches.push(...note.pitches);
+            lastNote.accidentals.push(...note.accidentals);
+            lastNote.tieStart.push(...note.tieStart);
+            lastNote.tieStop.push(...note.tieStop);
+          } else {
+            notes.push(note);
+            lastNote = note;
+            position += note.duration;
+          }
+          break;
+        }
+        case 'direction':
+          pedals.push(...parsePedals(child, position, staves)); // Pedal marks belong under the lowest staff
+          break;
+        case 'backup':
+          position = Math.max(0, position - childNumber(child, 'duration', 0));
+          break;
+        case 'forward':
+          position += childNumber(child, 'duration', 0);
+          break;
+      }
+    });
+
+    notes.sort((a, b) => a.staff - b.staff || a.voice.localeCompare(b.voice) || a.start - b.start);
+    pedals.sort((a, b) => a.start - b.start); // Stable, so a change stays up-then-down
+    measures.push({
+      number: measureElement.getAttribute('number') ?? String(measures.length + 1),
+      divisions,
+      fifths,
+      beats,
+      beatType,
+      clefs: [...clefs],
+      attributesChanged,
+      notes,
+      pedals,
+    });
+  });
+
+  console.log(`[parseMusicXml] ${measures.length} measures on ${staves} staves.`);
+  return { title, staves, measures };
+}
@@ -0,0 +1,197 @@
+import { magnitudeSpectrum } from './spectrum';
+
+// --- Onset Detection ---
+// Log-compressed spectral flux with adaptive peak picking (after Böck et al., 2012).
+// The onset list drives note segmentation; the envelope it is picked from drives beat tracking.
+// The same flux with the sign flipped - energy leaving the spectrum - shows dampers
+// stopping strings, which sustain-pedal detection looks for.
+
+export interface OnsetDetectionResult {
+  onsets: number[]; // Onset times in seconds, ascending
+  envelope: Float32Array; // Onset strength (normalised spectral flux) per frame
+  dampingEnvelope: Float32Array; // Energy falls (negative spectral flux) per frame, on the same scale
+  fluxScale: number; // Raw flux of the largest rise, which both envelopes were divided by (0 in silence)
+  frameRate: number; // Envelope frames per second
+  envelopeStart: number; // Seconds - time of the first frame (the centre of its window)
+}
+
+// An onset strength envelope placed in time
+export interface OnsetEnvelope {
+  values: ArrayLike<number>; // Onset strength per frame
+  frameRate: number; // Frames per second
+  startTime: number; // Seconds - time of values[0]
+}
+
+export interface OnsetDetectionOptions {
+  frameSize?: number; // Analysis window in samples (power of two)
+  hopSeconds?: number; // Envelope resolution
+  delta?: number; // Fixed threshold added to the moving average (0-1, envelope is normalised)
+  minInterOnsetSeconds?: number; // Onsets closer than this are merged into the first
+}
+
+const DEFAULT_OPTIONS: Required<OnsetDetectionOptions> = {
+  frameSize: 2048,
+  hopSeconds: 0.01,
+  delta: 0.06,
+  minInterOnsetSeconds: 0.03,
+};
+
+const COMPRESSION = 10; // log(1 + C * |X|) makes quiet attacks count as much as loud ones
+const PEAK_PRE_SECONDS = 0.03; // Peak must be the maximum within this window before...
+const PEAK_POST_SECONDS = 0.03; // ...and after the candidate frame
+const AVERAGE_PRE_SECONDS = 0.1; // Moving-average window for the adaptive threshold
+const AVERAGE_POST_SECONDS = 0.07;
+
+/**
+ * Computes the spectral-flux onset strength envelope, and its negative counterpart
+ * @param buffer Mono audio samples
+ * @param sampleRate Sample rate of the audio
+ * @param frameSize Analysis window in samples
+ * @param hopSize Step between frames in samples
+ * @returns Rises and falls of the spectrum per frame, both scaled so the largest rise is 1, and that rise
+ */
+function spectralFlux(
+  buffer: Float32Array,
+  sampleRate: number,
+  frameSize: number,
+  hopSize: number
+): { envelope: Float32Array; damping: Float32Array; maxFlux: number } {
+  const frameCount = Math.max(0, Math.floor((buffer.length - frameSize) / hopSize) + 1);
+  const envelope = new Float32Array(frameCount);
+  const damping = new Float32Array(frameCount);
+  let previous = new Float32Array(frameSize / 2); // Audio is preceded by silence
+  let maxFlux = 0;
+
+  for (let n = 0; n < frameCount; n++) {
+    const spectrum = magnitudeSpectrum(buffer.subarray(n * hopSize, n * hopSize + frameSize));
+    for (let k = 0; k < spectrum.length; k++) {
+      spectrum[k] = Math.log1p(COMPRESSION * spectrum[k]);
+    }
+
+    let flux = 0;
+    let fall = 0;
+    for (let k = 0; k < spectrum.length; k++) {
+      const diff = spectrum[k] - previous[k];
+      if (diff > 0) flux += diff; // Half-wave rectification: only energy increases count
+      else fall -= diff;
+    }
+    envelope[n] = flux;
+    damping[n] = fall;
+    maxFlux = Math.max(maxFlux, flux);
+    previous = spectrum;
+  }
+
+  if (maxFlux > 0) {
+    for (let n = 0; n < frameCount; n++) {
+      envelope[n] /= maxFlux;
+      damping[n] /= maxFlux;
+    }
+  }
+  console.log(`[detectOnsets] ${frameCount} flux frames at ${(sampleRate / hopSize).toFixed(1)} fps.`);
+  return { envelope, damping, maxFlux };
+}
+
+/**
+ * Picks onsets from an onset strength envelope
+ * @param envelope Normalised onset strength per frame
+ * @param frameRate Envelope frames per second
+ * @param delta Fixed threshold above the moving average
+ * @param minInterOnsetSeconds Minimum distance between two onsets
+ * @returns Frame indices of the detected onsets
+ */
+export function pickOnsetPeaks(
+  envelope: Float32Array,
+  frameRate: number,
+  delta: number,
+  minInterOnsetSeconds: number
+): number[] {
+  const preMax = Math.max(1, Math.round(PEAK_PRE_SECONDS * frameRate));
+  const postMax = Math.max(1, Math.round(PEAK_POST_SECONDS * frameRate));
+  const preAvg = Math.max(1, Math.round(AVERAGE_PRE_SECONDS * frameRate));
+  const postAvg = Math.max(1, Math.round(AVERAGE_POST_SECONDS * frameRate));
+  const minGap = Math.max(1, Math.round(minInterOnsetSeconds * frameRate));
+
+  const peaks: number[] = [];
+  let lastPeak = -Infinity;
+
+  for (let n = 0; n < envelope.length; n++) {
+    const value = envelope[n];
+    if (value <= 0) continue;
+
+    // 1. Local maximum
+    let isMax = true;
+    for (let m = Math.max(0, n - preMax); m <= Math.min(envelope.length - 1, n + postMax); m++) {
+      if (envelope[m] > value) {
+        isMax = false;
+        break;
+      }
+    }
+    if (!isMax) continue;
+
+    // 2. Above the adaptive threshold
+    const lo = Math.max(0, n - preAvg);
+    const hi = Math.min(envelope.length - 1, n + postAvg);
+    let sum = 0;
+    for (let m = lo; m <= hi; m++) sum += envelope[m];
+    if (value < sum / (hi - lo + 1) + delta) continue;
+
+    // 3. Far enough from the previous onset
+    if (n - lastPeak < minGap) continue;
+
+    peaks.push(n);
+    lastPeak = n;
+  }
+
+  return peaks;
+}
+
+/**
+ * Detects note onsets (attacks) in a mono signal
+ * @param buffer Mono audio samples
+ * @param sampleRate Sample rate of the audio
+ * @param options Detector tuning
+ * @returns Onset times plus the strength envelope they were picked from, and the damping envelope
+ */
+export function detectOnsets(
+  buffer: Float32Array,
+  sampleRate: number,
+  options: OnsetDetectionOptions = {}
+): OnsetDetectionResult {
+  const { frameSize, hopSeconds, delta, minInterOnsetSeconds } = { ...DEFAULT_OPTIONS, ...options };
+  const hopSize = Math.max(1, Math.round(hopSeconds * sampleRate));
+  const frameRate = sampleRate / hopSize;
+
+  const { envelope, damping, maxFlux } = spectralFlux(buffer, sampleRate, frameSize, hopSize);
+  const peaks = pickOnsetPeaks(envelope, frameRate, delta, minInterOnsetSeconds);
+
+  // Report each onset at the centre of its analysis frame
+  const envelopeStart = frameSize / 2 / sampleRate;
+  const onsets = peaks.map(n => envelopeStart + n / frameRate);
+  console.log(`[detectOnsets] Detected ${onsets.length} onsets.`);
+  return { onsets, envelope, dampingEnvelope: damping, fluxScale: maxFlux, frameRate, envelopeStart };
+}
+
+/**
+ * Finds the onset closest to a given time
+ * @param onsets Ascending onset times in seconds
+ * @param time Time to search around
+ * @param tolerance Maximum allowed distance in seconds
+ * @returns The closest onset time, or null if none is within tolerance
+ */
+export function nearestOnset(onsets: number[], time: number, tolerance: number): number | null {
+  let lo = 0;
+  let hi = onsets.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (onsets[mid] < time) lo = mid + 1;
+    else hi = mid;
+  }
+
+  let best: number | null = null;
+  for (const index of [lo - 1, lo]) {
+    const onset = onsets[index];
+    if (onset === undefined || Math.abs(onset - time) > tolerance) continue;
+    if (best === null || Math.abs(onset - time) < Math.abs(best - time)) best = onset;
+  }
+  return best;
+}
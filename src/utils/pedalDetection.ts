@@ -0,0 +1,203 @@
+import type { Note, PedalEvent } from './audioAnalysis';
+import type { HandParts } from './handSeparation';
+import type { OnsetEnvelope } from './onsetDetection';
+import { TICKS_PER_QUARTER } from './quantization';
+import type { TempoMap } from './tempoMap';
+
+// --- Sustain Pedal Detection ---
+// With the dampers lifted, a note keeps ringing after its key comes up, so the note
+// detector reads everything played under the pedal as long, overlapping notes. Two
+// spectral cues give the pedal away. Releasing it drops every damper at once: notes
+// struck at different times stop together, and the spectrum loses energy across all
+// their partials within a frame or two (decay under the pedal is slow). While it is
+// down, undamped strings ring in sympathy and earlier notes keep sounding, so more of
+// the sound lies off the partials of the notes being detected. A pedal region ends at
+// such a damping and reaches back through the notes that ring on over later attacks.
+// Under the pedal, each key is taken to come up when its hand plays its next attack.
+
+const END_TOLERANCE_SECONDS = 0.08; // Notes ending this close together were stopped by one damping
+const DAMPING_BEFORE_SECONDS = 0.1; // Energy falls counted before a damping's note ends...
+const DAMPING_AFTER_SECONDS = 0.05; // ...and after (the note detector's long window lags the fall)
+const MIN_DAMPING = 0.5; // Summed fall, relative to the strongest attack, of the dampers meeting the strings
+const CLUSTER_SECONDS = 0.05; // Attacks this close are played together
+const MIN_RING_SECONDS = 0.15; // A note sounding this long past its hand's next attack rings on (finger legato overlaps less)
+const SYNCOPATION_SECONDS = 0.3; // Notes struck this long before a release may be caught by the next press
+const PEDAL_CHANGE_SECONDS = 0.05; // Gap between a release and the next press
+const MIN_RINGING_ATTACKS = 2; // Attacks whose notes ring on under a pedal; a finger can hold one note past the next
+const RESONANCE_RATIO = 1.3; // Off-partial share, against the recording's median, that shows undamped strings
+
+// Frame-wise pedal cues, placed in time like the onset envelope
+export interface PedalEvidence {
+  damping: OnsetEnvelope; // Energy falls (negative spectral flux), on the onset envelope's scale
+  resonance: OnsetEnvelope; // Share of the sound off the partials of the detected notes, 0-1 (0 in silence)
+}
+
+// A pedal event placed in the score
+export interface PedalMark {
+  tick: number; // Quantizer ticks from the start of the score
+  isDown: boolean;
+}
+
+interface HandNote {
+  note: Note;
+  end: number; // Seconds
+  nextAttack: number; // Start of its hand's next attack (Infinity if none)
+}
+
+/**
+ * Sums an envelope over a time range
+ * @returns Sum of the frames whose times fall in [from, to]
+ */
+function envelopeSum(envelope: OnsetEnvelope, from: number, to: number): number {
+  const first = Math.max(0, Math.ceil((from - envelope.startTime) * envelope.frameRate));
+  const last = Math.min(envelope.values.length - 1, Math.floor((to - envelope.startTime) * envelope.frameRate));
+  let sum = 0;
+  for (let frame = first; frame <= last; frame++) sum += envelope.values[frame] ?? 0;
+  return sum;
+}
+
+/**
+ * Mean of an envelope's sounding (non-zero) frames over a time range
+ * @returns The mean, 0 if no frame in the range has sound
+ */
+function soundingMean(envelope: OnsetEnvelope, from: number, to: number): number {
+  const first = Math.max(0, Math.ceil((from - envelope.startTime) * envelope.frameRate));
+  const last = Math.min(envelope.values.length - 1, Math.floor((to - envelope.startTime) * envelope.frameRate));
+  let sum = 0;
+  let count = 0;
+  for (let frame = first; frame <= last; frame++) {
+    const value = envelope.values[frame] ?? 0;
+    if (value > 0) {
+      sum += value;
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+/**
+ * Pairs every note with the next attack of the hand that plays it
+ * @param hands Notes split between the hands
+ * @returns Per note, in start order
+ */
+function handNotes(hands: HandParts): HandNote[] {
+  return [hands.right, hands.left]
+    .flatMap(handPart => {
+      const starts = handPart.map(note => note.startTime).sort((a, b) => a - b);
+      return handPart.map(note => ({
+        note,
+        end: note.startTime + note.duration,
+        nextAttack: starts.find(start => start > note.startTime + CLUSTER_SECONDS) ?? Infinity,
+      }));
+    })
+    .sort((a, b) => a.note.startTime - b.note.startTime);
+}
+
+/**
+ * Whether a note sounds well past its hand's next attack - the key must be up by then
+ */
+function ringsOn({ end, nextAttack }: HandNote): boolean {
+  return end > nextAttack + MIN_RING_SECONDS;
+}
+
+/**
+ * Finds where the sustain pedal went down and came up
+ * @param hands Detected notes (with ringing durations), split between the hands
+ * @param evidence Damping and resonance of the recording
+ * @returns Pedal events in time order, alternating from a press; empty if the pedal wasn't heard
+ */
+export function detectPedal(hands: HandParts, evidence: PedalEvidence): PedalEvent[] {
+  const notes = handNotes(hands);
+  if (notes.length === 0) return [];
+  const soundingResonance = Array.from(evidence.resonance.values)
+    .filter(value => value > 0)
+    .sort((a, b) => a - b);
+  const usualResonance = soundingResonance[Math.floor(soundingResonance.length / 2)] ?? 0;
+
+  // Notes ending together, in time order: where dampers may have fallen
+  const byEnd = [...notes].sort((a, b) => a.end - b.end);
+  const endings: HandNote[][] = [];
+  byEnd.forEach(entry => {
+    const last = endings[endings.length - 1];
+    if (last && entry.end - last[0].end <= END_TOLERANCE_SECONDS) last.push(entry);
+    else endings.push([entry]);
+  });
+
+  const events: PedalEvent[] = [];
+  let previousRelease = -Infinity;
+  endings.forEach(ending => {
+    if (ending.length < 2) return;
+    const release = ending.reduce((sum, entry) => sum + entry.end, 0) / ending.length;
+    const attacks = new Set(ending.map(entry => Math.round(entry.note.startTime / CLUSTER_SECONDS)));
+    if (attacks.size < 2) return; // A chord let go by the hand
+    const damping = envelopeSum(evidence.damping, release - DAMPING_BEFORE_SECONDS, release + DAMPING_AFTER_SECONDS);
+    if (damping < MIN_DAMPING) return; // The notes faded out rather than being stopped
+
+    // The region reaches back through the notes that ring on into it
+    let regionStart = Math.min(...ending.map(entry => entry.note.startTime));
+    const earliest = previousRelease - SYNCOPATION_SECONDS;
+    for (let extended = true; extended; ) {
+      extended = false;
+      notes.forEach(entry => {
+        const { startTime } = entry.note;
+        if (startTime < regionStart && startTime >= earliest && entry.end > regionStart && ringsOn(entry)) {
+          regionStart = startTime;
+          extended = true;
+        }
+      });
+    }
+    const press = Math.max(regionStart, previousRelease + PEDAL_CHANGE_SECONDS);
+    if (press >= release) return;
+
+    // Damped legato also stops notes of different attacks together, and a finger can hold a
+    // note over the hand's next ones, so a region needs notes of several attacks ringing on
+    // and the undamped strings heard ringing along
+    const ringing = notes.filter(entry => entry.note.startTime >= press - SYNCOPATION_SECONDS && entry.note.startTime < release && ringsOn(entry));
+    const ringingAttacks = new Set(ringing.map(entry => Math.round(entry.note.startTime / CLUSTER_SECONDS)));
+    const resonance = usualResonance > 0 ? soundingMean(evidence.resonance, press, release) / usualResonance : 0;
+    if (ringingAttacks.size < MIN_RINGING_ATTACKS || resonance < RESONANCE_RATIO) return;
+
+    events.push({ time: press, isDown: true }, { time: release, isDown: false });
+    previousRelease = release;
+  });
+
+  console.log(`[detectPedal] ${events.length / 2} pedal region(s).`);
+  return events;
+}
+
+/**
+ * Shortens notes that rang on under the pedal to when their keys came up
+ * @param hands Detected notes, split between the hands
+ * @param pedal Pedal events, alternating from a press
+ * @returns Every note, those sustained by the pedal ending at their hand's next attack
+ */
+export function releaseKeys(hands: HandParts, pedal: PedalEvent[]): Note[] {
+  const regions: [number, number][] = [];
+  pedal.forEach((event, index) => {
+    if (event.isDown) regions.push([event.time, pedal[index + 1]?.time ?? Infinity]);
+  });
+
+  let shortened = 0;
+  const notes = handNotes(hands).map(entry => {
+    const { note, end, nextAttack } = entry;
+    const isSustained = regions.some(([press, release]) => end > press && note.startTime < release);
+    if (!isSustained || !ringsOn(entry)) return note;
+    shortened++;
+    return { ...note, duration: nextAttack - note.startTime };
+  });
+  if (shortened > 0) console.log(`[releaseKeys] ${shortened} note(s) cut back from their ringing to the key release.`);
+  return notes;
+}
+
+/**
+ * Places pedal events in the score
+ * @param pedal Pedal events in time order (optional)
+ * @param tempoMap Conversion between seconds and quarter notes
+ * @returns Marks in tick order
+ */
+export function pedalMarks(pedal: PedalEvent[] | undefined, tempoMap: TempoMap): PedalMark[] {
+  return (pedal ?? []).map(({ time, isDown }) => ({
+    tick: Math.max(0, Math.round(tempoMap.toQuarters(time) * TICKS_PER_QUARTER)),
+    isDown,
+  }));
+}
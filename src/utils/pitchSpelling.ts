@@ -0,0 +1,92 @@
+import type { KeySegment, Note } from './audioAnalysis';
+import {
+  lineOfFifths,
+  noteNameToMidi,
+  parseKey,
+  pitchAtLineOfFifths,
+  spellingCandidates,
+  spellMidiNear,
+  spelledNoteName,
+  SpelledPitch,
+  KEY_CENTER_OFFSET,
+} from './musicTheory';
+
+// --- Pitch Spelling ---
+// Chooses letter names from the key and the local harmony. Each note takes the spelling
+// nearest the centre of the key and the notes just before it on the line of fifths.
+// Scale notes always keep their key spelling. A chromatic note leans towards the
+// harmony around it: G# in an E major chord in A minor, but Ab in an F minor chord in C.
+
+const KEY_WEIGHT = 4; // The key counts as this many context notes
+const CONTEXT_NOTES = 8; // Recent notes that pull the centre
+
+/**
+ * Spells a sequence of MIDI notes in time order
+ * @param midis MIDI note numbers, in time order (chord tones in any order)
+ * @param fifths Key signature (sharps positive, flats negative)
+ * @returns Spelling of each note
+ */
+export function spellMidiSequence(midis: number[], fifths: number): SpelledPitch[] {
+  const keyCenter = fifths + KEY_CENTER_OFFSET;
+  const recent: number[] = []; // Line-of-fifths positions of the last few notes
+
+  return midis.map(midi => {
+    const scalePosition = spellingCandidates(midi).find(position => Math.abs(position - keyCenter) <= 3);
+    const center = (keyCenter * KEY_WEIGHT + recent.reduce((sum, position) => sum + position, 0)) / (KEY_WEIGHT + recent.length);
+    const spelled = scalePosition !== undefined ? pitchAtLineOfFifths(scalePosition, midi) : spellMidiNear(midi, center, fifths);
+    recent.push(lineOfFifths(spelled));
+    if (recent.length > CONTEXT_NOTES) recent.shift();
+    return spelled;
+  });
+}
+
+/**
+ * Respells notes for the key they were detected in
+ * @param notes Notes in any order, named with any spelling
+ * @param key Key as reported by the analysis, e.g. "Eb Major"
+ * @param keySegments Key regions; notes in each are spelled for its key instead (optional)
+ * @returns Copies of the notes, in the same order, with spelled pitch names
+ */
+export function spellNotes(notes: Note[], key: string, keySegments: KeySegment[] = []): Note[] {
+  const order = notes
+    .map((note, index) => ({ index, midi: noteNameToMidi(note.pitch) }))
+    .filter((entry): entry is { index: number; midi: number } => entry.midi !== null)
+    .sort((a, b) => notes[a.index].startTime - notes[b.index].startTime || a.midi - b.midi);
+
+  // Each key region is spelled on its own, so the context starts afresh at a modulation
+  const regionOf = (time: number) => keySegments.filter(segment => segment.startTime <= time).length - 1;
+  const pitches = notes.map(note => note.pitch);
+  let regionStart = 0;
+  order.forEach((entry, position) => {
+    const region = regionOf(notes[entry.index].startTime);
+    if (position + 1 < order.length && regionOf(notes[order[position + 1].index].startTime) === region) return;
+    const run = order.slice(regionStart, position + 1);
+    const { fifths } = parseKey(keySegments[region]?.key ?? key);
+    const spelled = spellMidiSequence(run.map(note => note.midi), fifths);
+    run.forEach((note, index) => (pitches[note.index] = spelledNoteName(spelled[index])));
+    regionStart = position + 1;
+  });
+
+  console.log(`[spellNotes] Spelled ${order.length} notes for ${keySegments.length > 1 ? `${keySegments.length} key regions` : key}.`);
+  return notes.map((note, index) => ({ ...note, pitch: pitches[index] }));
+}
+
+/**
+ * Spells the notes an edit gave a new pitch, leaving every other note's name as it was
+ * @param before Notes before the edit, already spelled
+ * @param after Notes after the edit; new and repitched ones are named with sharps
+ * @param key Key as reported by the analysis
+ * @param keySegments Key regions (optional)
+ * @returns The notes after the edit, the new and repitched ones spelled. A note carried over
+ *   from before, or moved without a change of pitch, keeps its name, so a spelling the user
+ *   chose stays.
+ */
+export function spellEditedNotes(before: Note[], after: Note[], key: string, keySegments: KeySegment[] = []): Note[] {
+  const unchanged = new Set(before);
+  const spelled = spellNotes(after, key, keySegments);
+  return after.map((note, index) => {
+    const previous = before[index];
+    const isRepitched = !previous || noteNameToMidi(previous.pitch) !== noteNameToMidi(note.pitch);
+    return unchanged.has(note) || !isRepitched ? note : spelled[index];
+  });
+}
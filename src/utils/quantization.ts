@@ -0,0 +1,312 @@
+import type { Note } from './audioAnalysis';
+import { beatQuarters, parseTimeSignature } from './musicTheory';
+import { createTempoMap, TempoMap } from './tempoMap';
+
+// --- Rhythm Quantization ---
+// Snaps performed note times onto a rhythmic grid measured from each beat (quarter
+// note), so notation keeps real bar positions instead of accumulating durations.
+// Beats come from the tempo map, so a performance that drifts in tempo stays in time,
+// and measures are counted from the first downbeat: notes before it make a pickup.
+// Each beat picks whichever of the grid's subdivisions fits its notes best - a
+// mixed grid lets straight sixteenths and eighth-note triplets coexist in a piece.
+// Near-simultaneous onsets are snapped together, so an unevenly played chord stays one.
+// Notes are then split into tied segments at barlines (and where they start or end
+// inside a triplet beat, so every tuplet group stays inside its beat).
+
+export const TICKS_PER_QUARTER = 48; // Divisible by every grid below
+
+export type QuantizationGrid = '8th' | '16th' | '32nd' | '8th-triplet' | '16th-triplet' | '16th+8th-triplet';
+
+// Candidate subdivisions of a beat per grid; the first one wins ties
+const GRID_SUBDIVISIONS: Record<QuantizationGrid, number[]> = {
+  '8th': [2],
+  '16th': [4],
+  '32nd': [8],
+  '8th-triplet': [3],
+  '16th-triplet': [6],
+  '16th+8th-triplet': [4, 3],
+};
+
+const TRIPLET_PENALTY = 1.5; // A triplet beat must fit this much better than a straight one to win
+const CHORD_ONSET_TOLERANCE = 0.035; // Seconds; onsets this close are one chord and snap together
+const PICKUP_MIN_QUARTERS = 1 / 8; // Notes this early for the first downbeat are just played early
+
+export interface ScoreTimingOptions {
+  tempo: number; // Quarter notes per minute
+  beats?: number[]; // Tracked beat times in seconds; the grid follows them instead of the constant tempo
+  downbeat?: number; // Index into beats of the first downbeat (default 0)
+  timeSignature: string; // e.g. "3/4"
+}
+
+export interface QuantizeOptions extends ScoreTimingOptions {
+  grid?: QuantizationGrid; // Defaults to '16th+8th-triplet'
+}
+
+export interface ScoreTiming {
+  tempoMap: TempoMap;
+  hasPickup: boolean; // Notes come before the first downbeat, at the end of measure 0
+}
+
+export interface QuantizedNote {
+  note: Note; // The performed note
+  start: number; // Ticks from the start of the piece
+  end: number;
+  onsetError: number; // Seconds the written onset is after (+) or before (-) the played one
+  offsetError: number; // Same for the note's end
+}
+
+export interface QuantizedScore {
+  ticksPerQuarter: number;
+  measureTicks: number;
+  beatSubdivisions: number[]; // Chosen subdivision of each beat (index = beat number)
+  notes: QuantizedNote[]; // Sorted by start, then pitch order of the input
+  meanOnsetError: number; // Seconds, absolute
+  tempoMap: TempoMap; // The conversion between seconds and quarter notes used
+  startTick: number; // Where the written music begins: 0, or inside measure 0 when it is a pickup
+}
+
+export interface NoteSegment {
+  start: number; // Ticks
+  end: number;
+  measure: number; // 0-based measure index
+  isTuplet: boolean; // Lies inside one triplet beat and is written as triplet values
+  tieFromPrevious: boolean; // Continues the previous segment of the same note
+  tieToNext: boolean;
+}
+
+export interface NoteValue {
+  ticks: number;
+  type: string; // MusicXML note type of the written value
+  dots: number;
+  isTuplet: boolean; // Written in a triplet: three of these take the time of two
+}
+
+// Written note values, longest first
+const STRAIGHT_VALUES: Omit<NoteValue, 'isTuplet'>[] = [
+  { ticks: 288, type: 'whole', dots: 1 },
+  { ticks: 192, type: 'whole', dots: 0 },
+  { ticks: 144, type: 'half', dots: 1 },
+  { ticks: 96, type: 'half', dots: 0 },
+  { ticks: 72, type: 'quarter', dots: 1 },
+  { ticks: 48, type: 'quarter', dots: 0 },
+  { ticks: 36, type: 'eighth', dots: 1 },
+  { ticks: 24, type: 'eighth', dots: 0 },
+  { ticks: 18, type: '16th', dots: 1 },
+  { ticks: 12, type: '16th', dots: 0 },
+  { ticks: 6, type: '32nd', dots: 0 },
+];
+
+// Triplet values by the time they actually take
+const TRIPLET_VALUES: Omit<NoteValue, 'isTuplet'>[] = [
+  { ticks: 32, type: 'quarter', dots: 0 },
+  { ticks: 16, type: 'eighth', dots: 0 },
+  { ticks: 8, type: '16th', dots: 0 },
+];
+
+/**
+ * Snaps a time to the grid of the beat it falls in
+ * @param quarters Time in quarter notes
+ * @param subdivisions Chosen subdivision per beat
+ * @param fallback Subdivision for beats past the end of the list
+ * @returns Ticks
+ */
+function snap(quarters: number, subdivisions: number[], fallback: number): number {
+  const beat = Math.max(0, Math.floor(quarters));
+  const subdivision = subdivisions[beat] ?? fallback;
+  const step = TICKS_PER_QUARTER / subdivision;
+  return beat * TICKS_PER_QUARTER + Math.round((quarters - beat) * subdivision) * step;
+}
+
+/**
+ * Groups near-simultaneous onsets so a chord's notes snap to the same grid point
+ * @param notes Performed notes
+ * @returns Onset (seconds) to quantize each note by: the mean onset of its group
+ */
+function chordOnsets(notes: Note[]): Map<Note, number> {
+  const onsets = new Map<Note, number>();
+  const sorted = [...notes].sort((a, b) => a.startTime - b.startTime);
+  let group: Note[] = [];
+  const closeGroup = () => {
+    const mean = group.reduce((sum, note) => sum + note.startTime, 0) / group.length;
+    group.forEach(note => onsets.set(note, mean));
+  };
+  sorted.forEach(note => {
+    if (group.length > 0 && note.startTime - group[0].startTime > CHORD_ONSET_TOLERANCE) {
+      closeGroup();
+      group = [];
+    }
+    group.push(note);
+  });
+  if (group.length > 0) closeGroup();
+  return onsets;
+}
+
+/**
+ * Picks the subdivision that best fits each beat's onsets and offsets
+ * @param times Note onsets and offsets, in quarter notes
+ * @param beatCount Number of beats to cover
+ * @param candidates Subdivisions the grid allows
+ * @returns Subdivision per beat
+ */
+function chooseBeatSubdivisions(times: number[], beatCount: number, candidates: number[]): number[] {
+  const errors = Array.from({ length: beatCount }, () => candidates.map(() => 0));
+  times.forEach(time => {
+    const beat = Math.floor(time);
+    if (beat < 0 || beat >= beatCount) return;
+    const fraction = time - beat;
+    candidates.forEach((subdivision, index) => {
+      const error = Math.abs(fraction * subdivision - Math.round(fraction * subdivision)) / subdivision;
+      errors[beat][index] += error * error;
+    });
+  });
+
+  // Triplets only have to beat straight subdivisions when the grid offers both
+  const weights = candidates.map(subdivision => (subdivision % 3 === 0 && candidates[0] % 3 !== 0 ? TRIPLET_PENALTY : 1));
+  return errors.map(beatErrors => {
+    let best = 0;
+    beatErrors.forEach((error, index) => {
+      if (error * weights[index] < beatErrors[best] * weights[best] - 1e-9) best = index;
+    });
+    return candidates[best];
+  });
+}
+
+/**
+ * Places performed time in the score: the first downbeat starts a measure, and notes
+ * before it go at the end of the measure(s) before
+ * @param notes Performed notes
+ * @param options Tempo (or tracked beats and downbeat) and meter
+ * @returns The tempo map, and whether the score opens with a pickup
+ */
+export function createScoreTiming(notes: Note[], { tempo, beats, downbeat = 0, timeSignature }: ScoreTimingOptions): ScoreTiming {
+  const { beats: measureBeats, beatType } = parseTimeSignature(timeSignature);
+  const measureQuarters = (measureBeats * 4) / beatType;
+  const quartersPerBeat = beatQuarters(timeSignature);
+  const fromDownbeat = createTempoMap(beats, tempo, { downbeat, quartersPerBeat });
+  const earliest = notes.reduce((first, note) => Math.min(first, fromDownbeat.toQuarters(note.startTime)), 0);
+  if (earliest > -PICKUP_MIN_QUARTERS) return { tempoMap: fromDownbeat, hasPickup: false };
+
+  const leadMeasures = Math.ceil(-earliest / measureQuarters);
+  const tempoMap = createTempoMap(beats, tempo, { downbeat, quartersPerBeat, downbeatQuarter: leadMeasures * measureQuarters });
+  return { tempoMap, hasPickup: true };
+}
+
+/**
+ * Quantizes performed notes onto the rhythmic grid
+ * @param notes Notes with times in seconds
+ * @param options Tempo (or tracked beats and downbeat), meter and grid
+ * @returns Notes in ticks, with their quantization error
+ */
+export function quantizeNotes(notes: Note[], { grid = '16th+8th-triplet', ...timing }: QuantizeOptions): QuantizedScore {
+  const { tempoMap, hasPickup } = createScoreTiming(notes, timing);
+  const { beats, beatType } = parseTimeSignature(timing.timeSignature);
+  const measureTicks = Math.round((beats * 4 * TICKS_PER_QUARTER) / beatType);
+  const candidates = GRID_SUBDIVISIONS[grid];
+
+  const toQuarters = (seconds: number) => Math.max(0, tempoMap.toQuarters(seconds));
+  const onsets = chordOnsets(notes);
+  const lastEnd = notes.reduce((end, note) => Math.max(end, note.startTime + note.duration), 0);
+  const beatCount = Math.ceil(toQuarters(lastEnd)) + 1;
+  const beatSubdivisions = chooseBeatSubdivisions(
+    notes.flatMap(note => [toQuarters(onsets.get(note)!), toQuarters(note.startTime + note.duration)]),
+    beatCount,
+    candidates
+  );
+
+  let totalOnsetError = 0;
+  const quantized = notes.map(note => {
+    const start = snap(toQuarters(onsets.get(note)!), beatSubdivisions, candidates[0]);
+    const beat = Math.floor(start / TICKS_PER_QUARTER);
+    const minimum = TICKS_PER_QUARTER / (beatSubdivisions[beat] ?? candidates[0]); // One grid step
+    const end = Math.max(start + minimum, snap(toQuarters(note.startTime + note.duration), beatSubdivisions, candidates[0]));
+
+    const toSeconds = (ticks: number) => tempoMap.toSeconds(ticks / TICKS_PER_QUARTER);
+    const onsetError = toSeconds(start) - note.startTime;
+    totalOnsetError += Math.abs(onsetError);
+    return { note, start, end, onsetError, offsetError: toSeconds(end) - (note.startTime + note.duration) };
+  });
+  quantized.sort((a, b) => a.start - b.start);
+  const startTick = hasPickup && quantized.length > 0 ? quantized[0].start % measureTicks : 0;
+
+  const meanOnsetError = quantized.length > 0 ? totalOnsetError / quantized.length : 0;
+  console.log(`[quantizeNotes] ${quantized.length} notes on a ${grid} grid, mean onset error ${(meanOnsetError * 1000).toFixed(1)}ms.`);
+  return { ticksPerQuarter: TICKS_PER_QUARTER, measureTicks, beatSubdivisions, notes: quantized, meanOnsetError, tempoMap, startTick };
+}
+
+/**
+ * Whether the beat containing a tick uses a triplet subdivision
+ */
+export function isTripletBeat(score: QuantizedScore, tick: number): boolean {
+  return (score.beatSubdivisions[Math.floor(tick / TICKS_PER_QUARTER)] ?? 4) % 3 === 0;
+}
+
+/**
+ * Splits a span into the tied segments notation needs: one per measure, with the parts
+ * of the span that start or end inside a triplet beat split off as triplet segments
+ * @param score Quantized score (for the measure length and beat grid)
+ * @param start Span start in ticks
+ * @param end Span end in ticks
+ * @returns Segments in time order
+ */
+export function splitIntoSegments(score: QuantizedScore, start: number, end: number): NoteSegment[] {
+  const segments: NoteSegment[] = [];
+  let cursor = start;
+  while (cursor < end) {
+    const measure = Math.floor(cursor / score.measureTicks);
+    const limit = Math.min(end, (measure + 1) * score.measureTicks);
+    const beatEnd = (Math.floor(cursor / TICKS_PER_QUARTER) + 1) * TICKS_PER_QUARTER;
+    const limitBeatStart = Math.floor(limit / TICKS_PER_QUARTER) * TICKS_PER_QUARTER;
+    let next = limit;
+    let isTuplet = false;
+
+    if (isTripletBeat(score, cursor) && (cursor % TICKS_PER_QUARTER !== 0 || limit < beatEnd)) {
+      // Starts (or lies wholly) inside a triplet beat: triplets up to the beat's end
+      next = Math.min(limit, beatEnd);
+      isTuplet = true;
+    } else if (limit % TICKS_PER_QUARTER !== 0 && isTripletBeat(score, limit)) {
+      // Ends inside a triplet beat: straight values up to that beat, triplets after
+      next = limitBeatStart;
+    }
+    // Whole beats are written straight, whatever their subdivision
+
+    segments.push({ start: cursor, end: next, measure, isTuplet, tieFromPrevious: cursor > start, tieToNext: next < end });
+    cursor = next;
+  }
+  return segments;
+}
+
+/**
+ * Splits a rest so it reads from the beat: rests don't tie, so a partial beat is
+ * filled up first, then whole beats, then what's left
+ * @param start Rest start in ticks
+ * @param end Rest end in ticks
+ * @returns Non-empty [start, end] spans in time order
+ */
+export function splitRest(start: number, end: number): [number, number][] {
+  const firstBeat = Math.min(end, Math.ceil(start / TICKS_PER_QUARTER) * TICKS_PER_QUARTER);
+  const lastBeat = Math.max(firstBeat, Math.floor(end / TICKS_PER_QUARTER) * TICKS_PER_QUARTER);
+  const bounds = [start, firstBeat, lastBeat, end];
+  return bounds
+    .slice(1)
+    .map((bound, index): [number, number] => [bounds[index], bound])
+    .filter(([from, to]) => to > from);
+}
+
+/**
+ * Splits a segment's length into written note values
+ * @param ticks Segment length
+ * @param isTuplet Whether the segment is written in triplets (NoteSegment.isTuplet)
+ * @returns Values (longest first) summing to the length; tie them together
+ */
+export function splitIntoNoteValues(ticks: number, isTuplet: boolean): NoteValue[] {
+  const table = isTuplet ? TRIPLET_VALUES : STRAIGHT_VALUES;
+  const values: NoteValue[] = [];
+  let remaining = ticks;
+  while (remaining > 0) {
+    const value = table.find(candidate => candidate.ticks <= remaining);
+    if (!value) break; // Off-grid remainder (can't happen for ticks from quantizeNotes)
+    values.push({ ...value, isTuplet });
+    remaining -= value.ticks;
+  }
+  return values;
+}
@@ -0,0 +1,205 @@
+import type { Note } from './audioAnalysis';
+import type { EditDescription } from './editHistory';
+import { noteNameToMidi, midiToNoteName, parseNoteName, spelledNoteName } from './musicTheory';
+import { TICKS_PER_QUARTER } from './quantization';
+import type { TempoMap } from './tempoMap';
+
+// --- Editing on the Sheet ---
+// The ABC sheet is written from the transcribed notes, so an edit made on it is an edit
+// of those notes. Each note, chord or tied piece written in the ABC is linked, by the
+// characters it takes up, to the notes it stands for; abcjs reports the same character
+// range for a clicked element, which leads back to the notes. A key then changes them
+// the way it would change the written element, and the sheet is written again. The
+// written spans of the links also place the recording's playback position on the sheet.
+
+const TIE_TOLERANCE_QUARTERS = 0.25; // A following note starting this close to the written end can be tied on
+
+// Written values of the duration keys, in quarter notes (the number keys of common notation editors)
+const DURATION_KEYS: { [key: string]: { quarters: number; name: string } } = {
+  '3': { quarters: 0.25, name: 'sixteenth' },
+  '4': { quarters: 0.5, name: 'eighth' },
+  '5': { quarters: 1, name: 'quarter' },
+  '6': { quarters: 2, name: 'half' },
+  '7': { quarters: 4, name: 'whole' },
+};
+
+// One written note or chord of the ABC and the notes it stands for
+export interface AbcNoteLink {
+  start: number; // Characters into the ABC, the way abcjs counts them (startChar/endChar)
+  end: number;
+  voice: number; // ABC voice it is written in
+  notes: number[]; // Indices into the transcription's notes
+  fromTick: number; // Written span, in quantizer ticks
+  toTick: number;
+  isTiedOn: boolean; // Tied to the next written piece of the same notes
+}
+
+// ABC notation with the links from its notes back to the transcription
+export interface AbcSheet {
+  abc: string;
+  links: AbcNoteLink[]; // In character order
+  tempoMap: TempoMap; // The score's conversion between seconds and quarter notes
+}
+
+export interface SheetEdit {
+  notes: Note[]; // All notes after the edit
+  selected: number[]; // Indices of the edited notes afterwards, empty if they are gone
+  edit: EditDescription;
+  isSpelled?: boolean; // The edit chose the notes' spellings, which are kept rather than respelled for the key
+}
+
+/**
+ * Finds the written note or chord at a character range of the ABC
+ * @param sheet The sheet on show
+ * @param startChar First character of the clicked element
+ * @param endChar Character after it
+ * @returns Its link; null for rests and anything else that isn't a transcribed note
+ */
+export function findLink(sheet: AbcSheet, startChar: number, endChar: number): AbcNoteLink | null {
+  return sheet.links.find(link => startChar < link.end && endChar > link.start) ?? null;
+}
+
+/**
+ * Finds where notes are written, so they stay selected after an edit
+ * @param sheet The sheet written after the edit
+ * @param notes Indices of the notes
+ * @param voice Voice they were selected in; another voice is taken if they moved
+ * @returns The first link holding any of the notes, null if none does
+ */
+export function linkOfNotes(sheet: AbcSheet, notes: number[], voice: number): AbcNoteLink | null {
+  const holds = (link: AbcNoteLink) => link.notes.some(index => notes.includes(index));
+  const inVoice = sheet.links.filter(link => link.voice === voice && holds(link));
+  const candidates = inVoice.length > 0 ? inVoice : sheet.links.filter(holds);
+  return candidates.sort((a, b) => a.fromTick - b.fromTick || a.start - b.start)[0] ?? null;
+}
+
+/**
+ * Steps to the previous or next written note or chord of the same voice
+ * @param sheet The sheet on show
+ * @param link The selected link
+ * @param step -1 for the previous, 1 for the next
+ * @returns The neighbouring link; the same one at either end of the voice
+ */
+export function adjacentLink(sheet: AbcSheet, link: AbcNoteLink, step: -1 | 1): AbcNoteLink {
+  const voice = sheet.links.filter(other => other.voice === link.voice).sort((a, b) => a.fromTick - b.fromTick);
+  const index = voice.findIndex(other => other.start === link.start);
+  return voice[index + step] ?? link;
+}
+
+/**
+ * Finds the written notes and chords sounding at a point of the recording
+ * @param sheet The sheet on show (optional)
+ * @param time Seconds into the recording
+ * @returns Links whose written span holds that point of the score, in character order
+ */
+export function linksAt(sheet: AbcSheet | null, time: number): AbcNoteLink[] {
+  if (!sheet) return [];
+  const tick = sheet.tempoMap.toQuarters(time) * TICKS_PER_QUARTER;
+  return sheet.links.filter(link => link.fromTick <= tick && tick < link.toTick);
+}
+
+/**
+ * Changes the notes of a written element the way a key press would change it
+ * @param key The pressed key (KeyboardEvent.key)
+ * @param isShifted Whether Shift was held (arrow keys move by an octave)
+ * @param notes All transcribed notes
+ * @param link The selected element
+ * @param tempoMap Conversion between seconds and quarter notes of the sheet
+ * @returns The edit; null if the key doesn't edit, or changes nothing here
+ */
+export function editFromKey(key: string, isShifted: boolean, notes: Note[], link: AbcNoteLink, tempoMap: TempoMap): SheetEdit | null {
+  const selected = new Set(link.notes);
+  const update = (change: (note: Note) => Note, edit: EditDescription): SheetEdit => ({
+    notes: notes.map((note, index) => (selected.has(index) ? { ...change(note), confidence: 1 } : note)),
+    selected: link.notes,
+    edit,
+  });
+
+  if (key === 'ArrowUp' || key === 'ArrowDown') {
+    const semitones = (key === 'ArrowUp' ? 1 : -1) * (isShifted ? 12 : 1);
+    return update(note => {
+      const midi = noteNameToMidi(note.pitch);
+      return midi === null ? note : { ...note, pitch: midiToNoteName(Math.min(108, Math.max(21, midi + semitones))) };
+    }, { label: 'Transpose notes', group: 'transpose' });
+  }
+
+  if (key === '#' || key === 'b') {
+    // Toggles the accidental on the written letter: natural to sharp (or flat) and back
+    const direction = key === '#' ? 1 : -1;
+    const toggled = update(note => {
+      const pitch = parseNoteName(note.pitch);
+      if (!pitch) return note;
+      const alter = Math.sign(pitch.alter) === direction ? 0 : direction;
+      return { ...note, pitch: spelledNoteName({ ...pitch, alter }) };
+    }, { label: key === '#' ? 'Toggle sharp' : 'Toggle flat' });
+    return { ...toggled, isSpelled: true };
+  }
+
+  const value = DURATION_KEYS[key];
+  if (value) {
+    return update(note => {
+      const end = tempoMap.toSeconds(tempoMap.toQuarters(note.startTime) + value.quarters);
+      return { ...note, duration: Math.max(0.01, end - note.startTime) };
+    }, { label: `Make ${value.name} notes` });
+  }
+
+  if (key === 'Delete' || key === 'Backspace') {
+    return { notes: notes.filter((_, index) => !selected.has(index)), selected: [], edit: { label: 'Delete notes' } };
+  }
+
+  if (key === 't' || key === 'T') return link.isTiedOn ? untie(notes, link, tempoMap) : tie(notes, link, tempoMap);
+  return null;
+}
+
+/**
+ * Joins each note of a written element to the next note of its pitch, as a tie would
+ * @returns The edit; null if no note of the same pitch follows straight on
+ */
+function tie(notes: Note[], link: AbcNoteLink, tempoMap: TempoMap): SheetEdit | null {
+  const writtenEnd = link.toTick / TICKS_PER_QUARTER;
+  const joined = new Map<number, number>(); // Note index to the index of the note tied on to it
+  link.notes.forEach(index => {
+    const note = notes[index];
+    let next = -1;
+    notes.forEach((other, otherIndex) => {
+      if (other.pitch !== note.pitch || other.startTime <= note.startTime || joined.has(otherIndex)) return;
+      if (Math.abs(tempoMap.toQuarters(other.startTime) - writtenEnd) > TIE_TOLERANCE_QUARTERS) return;
+      if (next < 0 || other.startTime < notes[next].startTime) next = otherIndex;
+    });
+    if (next >= 0 && !link.notes.includes(next)) joined.set(index, next);
+  });
+  if (joined.size === 0) return null;
+
+  const removed = new Set(joined.values());
+  const edited = notes.map((note, index) => {
+    const next = joined.get(index);
+    if (next === undefined) return note;
+    const end = Math.max(note.startTime + note.duration, notes[next].startTime + notes[next].duration);
+    return { ...note, duration: end - note.startTime, confidence: 1 };
+  });
+  // Indices shift down past every note that was joined on
+  const shifted = (index: number) => index - [...removed].filter(other => other < index).length;
+  return {
+    notes: edited.filter((_, index) => !removed.has(index)),
+    selected: link.notes.map(shifted),
+    edit: { label: 'Tie notes' },
+  };
+}
+
+/**
+ * Splits the notes of a written element where its tie leaves it
+ * @returns The edit; the notes end at the element and new notes carry on from there
+ */
+function untie(notes: Note[], link: AbcNoteLink, tempoMap: TempoMap): SheetEdit | null {
+  const split = tempoMap.toSeconds(link.toTick / TICKS_PER_QUARTER);
+  const selected = new Set(link.notes);
+  const carried: Note[] = [];
+  const edited = notes.map((note, index) => {
+    const end = note.startTime + note.duration;
+    if (!selected.has(index) || split <= note.startTime || split >= end) return note;
+    carried.push({ ...note, startTime: split, duration: end - split, confidence: 1 });
+    return { ...note, duration: split - note.startTime, confidence: 1 };
+  });
+  if (carried.length === 0) return null;
+  return { notes: [...edited, ...carried], selected: link.notes, edit: { label: 'Remove tie' } };
+}
@@ -0,0 +1,92 @@
+// --- Spectral Analysis Helpers ---
+
+const windowCache = new Map<number, Float32Array>();
+
+/**
+ * Returns a (cached) Hann window of the given size
+ * @param size Window length in samples
+ * @returns Hann window coefficients
+ */
+export function hannWindow(size: number): Float32Array {
+  const cached = windowCache.get(size);
+  if (cached) return cached;
+
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)));
+  }
+  windowCache.set(size, window);
+  return window;
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ * @param re Real parts (length must be a power of two)
+ * @param im Imaginary parts (same length as re)
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  if (n !== im.length || (n & (n - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two (got ${n})`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  // Butterflies
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = start + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Computes the magnitude spectrum of a Hann-windowed frame
+ * @param frame Time-domain samples
+ * @param fftSize FFT size (power of two >= frame length); the frame is zero-padded
+ *   to it, which interpolates the spectrum for finer peak positions
+ * @returns Magnitudes for bins 0..fftSize/2-1
+ */
+export function magnitudeSpectrum(frame: Float32Array, fftSize: number = frame.length): Float32Array {
+  const size = fftSize;
+  const window = hannWindow(frame.length);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < frame.length; i++) {
+    re[i] = frame[i] * window[i];
+  }
+
+  fft(re, im);
+
+  const magnitudes = new Float32Array(size / 2);
+  for (let k = 0; k < size / 2; k++) {
+    magnitudes[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+  }
+  return magnitudes;
+}
@@ -0,0 +1,88 @@
+// --- Tempo Map ---
+// Converts between performed time (seconds) and score time (quarter notes). With tracked
+// beats every beat is one beat of the meter, counted from the first downbeat, and times
+// in between are interpolated, so the notation follows the player as they speed up or
+// slow down; before the first and after the last beat the nearest interval carries on.
+// Without beats the tempo is constant.
+
+const TEMPO_CHANGE_RATIO = 0.06; // A measure this much faster or slower than the written tempo changes it
+
+export interface TempoMap {
+  toQuarters: (seconds: number) => number;
+  toSeconds: (quarters: number) => number;
+}
+
+export interface TempoMapOptions {
+  downbeat?: number; // Index into the beats of the first downbeat
+  downbeatQuarter?: number; // Where that downbeat goes in the score
+  quartersPerBeat?: number; // Length of one tracked beat (1.5 in compound meters)
+}
+
+// A written tempo, from a measure on
+export interface TempoMark {
+  measure: number; // 0-based measure index
+  bpm: number; // Quarter notes per minute, rounded
+}
+
+/**
+ * Builds the conversion between seconds and quarter notes
+ * @param beats Tracked beat times in seconds, ascending (optional)
+ * @param tempo Constant tempo to use without beats, in quarter notes per minute
+ * @param options How the beats line up with the score
+ * @returns The tempo map
+ */
+export function createTempoMap(
+  beats: number[] | undefined,
+  tempo: number,
+  { downbeat = 0, downbeatQuarter = 0, quartersPerBeat = 1 }: TempoMapOptions = {}
+): TempoMap {
+  const quarterSeconds = 60 / (tempo > 0 ? tempo : 120);
+  if (!beats || beats.length < 2) {
+    return { toQuarters: seconds => seconds / quarterSeconds, toSeconds: quarters => quarters * quarterSeconds };
+  }
+
+  const lastInterval = beats.length - 2;
+
+  const toQuarters = (seconds: number) => {
+    let lo = 0;
+    let hi = lastInterval;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (beats[mid] <= seconds) lo = mid;
+      else hi = mid - 1;
+    }
+    const beat = lo + (seconds - beats[lo]) / (beats[lo + 1] - beats[lo]);
+    return downbeatQuarter + (beat - downbeat) * quartersPerBeat;
+  };
+  const toSeconds = (quarters: number) => {
+    const beat = downbeat + (quarters - downbeatQuarter) / quartersPerBeat;
+    const index = Math.min(lastInterval, Math.max(0, Math.floor(beat)));
+    return beats[index] + (beat - index) * (beats[index + 1] - beats[index]);
+  };
+  return { toQuarters, toSeconds };
+}
+
+/**
+ * Chooses the tempos to write: one at the start and one wherever the tempo really changes
+ * @param tempoMap Conversion between seconds and quarter notes
+ * @param measureQuarters Quarter notes per measure
+ * @param measureCount Number of measures
+ * @returns Tempo marks in measure order, starting with measure 0. A mark needs two measures
+ *   in a row away from the written tempo in the same direction, so rubato in a single measure
+ *   doesn't change it.
+ */
+export function tempoMarks(tempoMap: TempoMap, measureQuarters: number, measureCount: number): TempoMark[] {
+  const measureTempo = (measure: number) =>
+    (60 * measureQuarters) /
+    (tempoMap.toSeconds((measure + 1) * measureQuarters) - tempoMap.toSeconds(measure * measureQuarters));
+
+  const marks: TempoMark[] = [{ measure: 0, bpm: Math.round(measureTempo(0)) }];
+  for (let measure = 1; measure < measureCount; measure++) {
+    const written = marks[marks.length - 1].bpm;
+    const change = (bpm: number) => (Math.abs(bpm - written) / written >= TEMPO_CHANGE_RATIO ? Math.sign(bpm - written) : 0);
+    const tempo = measureTempo(measure);
+    const next = measure + 1 < measureCount ? measureTempo(measure + 1) : tempo;
+    if (change(tempo) !== 0 && change(tempo) === change(next)) marks.push({ measure, bpm: Math.round(tempo) });
+  }
+  return marks;
+}
@@ -0,0 +1,517 @@
+import {
+  Accidental,
+  BarlineType,
+  Beam,
+  Dot,
+  Formatter,
+  GhostNote,
+  PedalMarking,
+  Renderer,
+  Stave,
+  StaveConnector,
+  StaveNote,
+  StaveTie,
+  Stem,
+  StemmableNote,
+  Tuplet,
+  Voice,
+} from 'vexflow';
+import type { ClefSign, ParsedScore, ScoreMeasure, ScoreNote, ScorePedal } from './musicXmlParser';
+
+// --- VexFlow Engraving ---
+// Lays a parsed MusicXML score out as systems of measures (a grand staff for piano)
+// and draws it as SVG. Measure widths follow how many distinct note positions they
+// hold; each system is then stretched to the full line width. Sustain pedal marks are
+// drawn per system, the pedal restated at the start of a system it is still down in.
+
+const SCORE_COLOR = '#ffffff'; // Matches the ABC renderer's white-on-dark styling
+const PAGE_PADDING = 10;
+const MIN_SCORE_WIDTH = 500;
+const STAFF_DISTANCE = 110; // Top line of one staff to the next, within a system
+const SYSTEM_DISTANCE = 90; // Bottom staff of one system to the top staff of the next
+const STAVE_TOP_MARGIN = 30; // Room above the first staff for measure numbers and ledger lines
+const MIN_MEASURE_WIDTH = 110;
+const WIDTH_PER_POSITION = 32; // Horizontal room per distinct note start in a measure
+const MEASURE_PADDING = 30;
+
+// Major key names by fifths, for VexFlow's key signature spec
+const KEY_NAMES = ['Cb', 'Gb', 'Db', 'Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
+const SHARP_ORDER = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+
+const TYPE_DURATIONS: { [type: string]: string } = {
+  breve: 'w', // VexFlow 4 can't draw breves; a whole note keeps the layout readable
+  whole: 'w',
+  half: 'h',
+  quarter: 'q',
+  eighth: '8',
+  '16th': '16',
+  '32nd': '32',
+  '64th': '64',
+};
+
+// Note values (in quarters) for notes without a <type>, longest first
+const QUARTER_DURATIONS: { quarters: number; duration: string; dots: number }[] = [
+  { quarters: 6, duration: 'w', dots: 1 },
+  { quarters: 4, duration: 'w', dots: 0 },
+  { quarters: 3, duration: 'h', dots: 1 },
+  { quarters: 2, duration: 'h', dots: 0 },
+  { quarters: 1.5, duration: 'q', dots: 1 },
+  { quarters: 1, duration: 'q', dots: 0 },
+  { quarters: 0.75, duration: '8', dots: 1 },
+  { quarters: 0.5, duration: '8', dots: 0 },
+  { quarters: 0.25, duration: '16', dots: 0 },
+  { quarters: 0.125, duration: '32', dots: 0 },
+];
+
+const ACCIDENTAL_CODES: { [name: string]: string } = {
+  sharp: '#',
+  flat: 'b',
+  natural: 'n',
+  'double-sharp': '##',
+  'sharp-sharp': '##',
+  'flat-flat': 'bb',
+};
+
+const REST_KEYS: { [clef in ClefSign]: string } = { treble: 'b/4', bass: 'd/3', alto: 'c/4', tenor: 'a/3' };
+
+export interface RenderScoreOptions {
+  width?: number; // Defaults to the container's width
+}
+
+interface SystemLayout {
+  measures: number[]; // Indices into score.measures
+  widths: number[];
+}
+
+interface PendingTie {
+  note: StaveNote;
+  index: number;
+  system: number;
+}
+
+/**
+ * Alteration the key signature gives a step
+ * @param step Letter name
+ * @param fifths Key signature
+ * @returns 1, -1 or 0
+ */
+function keyAlter(step: string, fifths: number): number {
+  const position = SHARP_ORDER.indexOf(step);
+  if (fifths > 0) return position < fifths ? 1 : 0;
+  if (fifths < 0) return 6 - position < -fifths ? -1 : 0;
+  return 0;
+}
+
+function alterToAccidental(alter: number): string {
+  return alter === 2 ? '##' : alter === 1 ? '#' : alter === -1 ? 'b' : alter === -2 ? 'bb' : 'n';
+}
+
+/**
+ * Splits a length into note values
+ * @param quarters Length in quarter notes
+ * @returns VexFlow durations (with dots) that add up to it, to the nearest 32nd
+ */
+function splitQuarters(quarters: number): { duration: string; dots: number }[] {
+  const values: { duration: string; dots: number }[] = [];
+  let remaining = quarters;
+  while (remaining >= 0.125 - 1e-6) {
+    const value = QUARTER_DURATIONS.find(candidate => candidate.quarters <= remaining + 1e-6)!;
+    values.push(value);
+    remaining -= value.quarters;
+  }
+  return values;
+}
+
+/**
+ * Estimates the width a measure needs at its natural spacing
+ * @param measure The measure
+ * @returns Width in pixels, excluding clef/key/time modifiers
+ */
+function measureMinWidth(measure: ScoreMeasure): number {
+  const positions = new Set(measure.notes.map(note => note.start));
+  const accidentalCount = measure.notes.reduce((count, note) => count + note.accidentals.filter(Boolean).length, 0);
+  return Math.max(MIN_MEASURE_WIDTH, positions.size * WIDTH_PER_POSITION + accidentalCount * 4 + MEASURE_PADDING);
+}
+
+/**
+ * Adds the clef/key/time modifiers a stave shows at the start of a system
+ */
+function addStaveModifiers(stave: Stave, measure: ScoreMeasure, staffIndex: number, showTime: boolean) {
+  stave.addClef(measure.clefs[staffIndex] ?? 'treble');
+  if (measure.fifths !== 0) stave.addKeySignature(KEY_NAMES[measure.fifths + 7] ?? 'C');
+  if (showTime) stave.addTimeSignature(`${measure.beats}/${measure.beatType}`);
+}
+
+/**
+ * Whether a measure shows its time signature: at the start and wherever it changes
+ */
+function showsTimeSignature(score: ParsedScore, index: number): boolean {
+  const measure = score.measures[index];
+  const previous = score.measures[index - 1];
+  return !previous || previous.beats !== measure.beats || previous.beatType !== measure.beatType;
+}
+
+/**
+ * Whether a measure changes the key signature from the one before it
+ */
+function changesKey(score: ParsedScore, index: number): boolean {
+  const previous = score.measures[index - 1];
+  return !!previous && previous.fifths !== score.measures[index].fifths;
+}
+
+/**
+ * Width taken by the modifiers at the start of a system
+ */
+function modifierWidth(measure: ScoreMeasure, showTime: boolean): number {
+  const probe = new Stave(0, 0, 500);
+  addStaveModifiers(probe, measure, 0, showTime);
+  return probe.getNoteStartX() - probe.getX();
+}
+
+/**
+ * Breaks the score into systems that fit the line width
+ * @param score Parsed score
+ * @param lineWidth Available width per system
+ * @returns Measure indices and (stretched) widths per system
+ */
+function layoutSystems(score: ParsedScore, lineWidth: number): SystemLayout[] {
+  const systems: SystemLayout[] = [];
+  let current: SystemLayout | null = null;
+  let used = 0;
+
+  score.measures.forEach((measure, index) => {
+    const natural = measureMinWidth(measure);
+    if (!current || used + natural > lineWidth) {
+      current = { measures: [], widths: [] };
+      systems.push(current);
+      used = modifierWidth(measure, showsTimeSignature(score, index));
+    }
+    current.measures.push(index);
+    current.widths.push(natural);
+    used += natural;
+  });
+
+  systems.forEach((system, systemIndex) => {
+    const first = score.measures[system.measures[0]];
+    const available = lineWidth - modifierWidth(first, showsTimeSignature(score, system.measures[0]));
+    const total = system.widths.reduce((sum, width) => sum + width, 0);
+    const isLast = systemIndex === systems.length - 1;
+    // A short final line keeps its natural spacing instead of being stretched apart
+    if (isLast && total < available * 0.7) return;
+    const scale = available / total;
+    system.widths = system.widths.map(width => width * scale);
+  });
+
+  return systems;
+}
+
+/**
+ * Builds the VexFlow notes of one voice in one measure
+ * @returns The voice's notes (with ghost notes for gaps) and the tuplets over them
+ */
+function buildVoiceNotes(
+  notes: ScoreNote[],
+  measure: ScoreMeasure,
+  clef: ClefSign,
+  stemDirection: number | null,
+  displayedAccidentals: Map<ScoreNote, (string | null)[]>
+): { tickables: StemmableNote[]; staveNotes: Map<ScoreNote, StaveNote>; tuplets: Tuplet[] } {
+  const tickables: StemmableNote[] = [];
+  const staveNotes = new Map<ScoreNote, StaveNote>();
+  const tuplets: Tuplet[] = [];
+  let tupletGroup: StaveNote[] = [];
+  let tupletShape: ScoreNote['tuplet'] = null;
+  let position = 0;
+
+  const closeTuplet = () => {
+    if (tupletGroup.length > 0 && tupletShape) {
+      tuplets.push(new Tuplet(tupletGroup, { num_notes: tupletShape.actual, notes_occupied: tupletShape.normal }));
+    }
+    tupletGroup = [];
+    tupletShape = null;
+  };
+
+  const addGap = (divisions: number) => {
+    splitQuarters(divisions / measure.divisions).forEach(({ duration, dots }) => {
+      tickables.push(new GhostNote({ duration, dots }));
+    });
+  };
+
+  notes.forEach(note => {
+    if (note.start > position) {
+      closeTuplet();
+      addGap(note.start - position);
+    }
+
+    const isRest = note.pitches.length === 0;
+    let duration: string;
+    let dots = note.dots;
+    if (note.isMeasureRest) {
+      duration = 'w';
+      dots = 0;
+    } else if (note.type && TYPE_DURATIONS[note.type]) {
+      duration = TYPE_DURATIONS[note.type];
+    } else {
+      const scale = note.tuplet ? note.tuplet.actual / note.tuplet.normal : 1;
+      const value = splitQuarters((note.duration / measure.divisions) * scale)[0] ?? { duration: 'q', dots: 0 };
+      duration = value.duration;
+      dots = value.dots;
+    }
+
+    const staveNote = new StaveNote({
+      keys: isRest ? [REST_KEYS[clef]] : note.pitches.map(pitch => `${pitch.step.toLowerCase()}/${pitch.octave}`),
+      duration,
+      dots,
+      type: isRest ? 'r' : undefined,
+      clef,
+      align_center: note.isMeasureRest,
+      auto_stem: stemDirection === null,
+      stem_direction: stemDirection ?? undefined,
+    });
+    if (dots > 0) Dot.buildAndAttach([staveNote], { all: true });
+    (displayedAccidentals.get(note) ?? []).forEach((accidental, index) => {
+      if (accidental) staveNote.addModifier(new Accidental(accidental), index);
+    });
+
+    if (note.tuplet && !isRest) {
+      const sameShape = tupletShape && tupletShape.actual === note.tuplet.actual && tupletShape.normal === note.tuplet.normal;
+      if (!sameShape) closeTuplet();
+      tupletShape = note.tuplet;
+      tupletGroup.push(staveNote);
+      if (tupletGroup.length === note.tuplet.actual) closeTuplet();
+    } else if (note.tuplet && isRest && tupletShape) {
+      tupletGroup.push(staveNote);
+      if (tupletGroup.length === tupletShape.actual) closeTuplet();
+    } else {
+      closeTuplet();
+    }
+
+    tickables.push(staveNote);
+    staveNotes.set(note, staveNote);
+    position = note.start + note.duration;
+  });
+  closeTuplet();
+
+  return { tickables, staveNotes, tuplets };
+}
+
+/**
+ * Finds the drawn note a pedal mark belongs to: the one starting nearest it on its staff
+ * @param pedal The mark
+ * @param noteLookup Drawn notes of the mark's measure
+ * @returns The note; one on another staff if the mark's staff has none; null in an empty measure
+ */
+function pedalNote(pedal: ScorePedal, noteLookup: Map<ScoreNote, StaveNote>): StaveNote | null {
+  const notes = [...noteLookup.keys()];
+  const candidates = notes.some(note => note.staff === pedal.staff) ? notes.filter(note => note.staff === pedal.staff) : notes;
+  const nearest = candidates.reduce<ScoreNote | null>(
+    (best, note) => (!best || Math.abs(note.start - pedal.start) < Math.abs(best.start - pedal.start) ? note : best),
+    null
+  );
+  return nearest ? noteLookup.get(nearest)! : null;
+}
+
+/**
+ * Works out which accidentals to print in one staff of one measure: anything the key
+ * signature or an earlier note in the bar doesn't already imply (ties carry theirs)
+ * @returns Accidental code (or null) per pitch of each note
+ */
+function displayAccidentals(notes: ScoreNote[], fifths: number): Map<ScoreNote, (string | null)[]> {
+  const result = new Map<ScoreNote, (string | null)[]>();
+  const barAlters = new Map<string, number>(); // "<step><octave>" -> alteration in force
+  [...notes]
+    .sort((a, b) => a.start - b.start)
+    .forEach(note => {
+      result.set(
+        note,
+        note.pitches.map((pitch, index) => {
+          const key = `${pitch.step}${pitch.octave}`;
+          const inForce = barAlters.get(key) ?? keyAlter(pitch.step, fifths);
+          barAlters.set(key, pitch.alter);
+          const stated = note.accidentals[index];
+          if (stated) return ACCIDENTAL_CODES[stated] ?? null;
+          if (note.tieStop[index]) return null;
+          return pitch.alter !== inForce ? alterToAccidental(pitch.alter) : null;
+        })
+      );
+    });
+  return result;
+}
+
+/**
+ * Draws a parsed score into a container
+ * @param container Element to draw into (its contents are replaced)
+ * @param score Parsed MusicXML score
+ * @param options Layout options
+ */
+export function renderScore(container: HTMLElement, score: ParsedScore, options: RenderScoreOptions = {}): void {
+  container.innerHTML = '';
+  const width = Math.max(MIN_SCORE_WIDTH, options.width ?? (container.clientWidth || 900));
+  const lineWidth = width - PAGE_PADDING * 2;
+  const staffCount = Math.max(1, score.staves);
+  const systemHeight = (staffCount - 1) * STAFF_DISTANCE + 40 + SYSTEM_DISTANCE;
+  const systems = layoutSystems(score, lineWidth);
+
+  const renderer = new Renderer(container as HTMLDivElement, Renderer.Backends.SVG);
+  renderer.resize(width, STAVE_TOP_MARGIN + Math.max(1, systems.length) * systemHeight);
+  const context = renderer.getContext();
+  context.setFillStyle(SCORE_COLOR);
+  context.setStrokeStyle(SCORE_COLOR);
+
+  const pendingTies = new Map<string, PendingTie>(); // By staff and pitch
+  let isPedalDown = false;
+  const timeSignature = (measure: ScoreMeasure) => `${measure.beats}/${measure.beatType}`;
+
+  systems.forEach((system, systemIndex) => {
+    const top = STAVE_TOP_MARGIN + systemIndex * systemHeight;
+    let x = PAGE_PADDING;
+    const pedalNotes: StaveNote[] = []; // Alternately pressing and lifting the pedal; a repeated note changes it
+    let lastPedalNote: StaveNote | null = null;
+
+    system.measures.forEach((measureIndex, positionInSystem) => {
+      const measure = score.measures[measureIndex];
+      const isSystemStart = positionInSystem === 0;
+      const timeChanged = showsTimeSignature(score, measureIndex);
+      const modifiers = isSystemStart ? modifierWidth(measure, timeChanged) : 0;
+      const measureWidth = system.widths[positionInSystem] + modifiers;
+
+      // Staves
+      const staves = Array.from({ length: staffCount }, (_, staffIndex) => {
+        const stave = new Stave(x, top + staffIndex * STAFF_DISTANCE, measureWidth);
+        if (isSystemStart) {
+          addStaveModifiers(stave, measure, staffIndex, timeChanged);
+        } else {
+          // Naturals cancel the old signature's sharps or flats
+          const previousFifths = score.measures[measureIndex - 1].fifths;
+          if (changesKey(score, measureIndex)) stave.addKeySignature(KEY_NAMES[measure.fifths + 7] ?? 'C', KEY_NAMES[previousFifths + 7]);
+          if (timeChanged) stave.addTimeSignature(timeSignature(measure));
+        }
+        if (isSystemStart && staffIndex === 0) {
+          // A pickup is measure 0, which VexFlow leaves unnumbered
+          const number = parseInt(measure.number, 10);
+          stave.setMeasure(Number.isNaN(number) ? measureIndex + 1 : number);
+        }
+        if (measureIndex === score.measures.length - 1) stave.setEndBarType(BarlineType.END);
+        return stave;
+      });
+      const noteStartX = Math.max(...staves.map(stave => stave.getNoteStartX()));
+      staves.forEach(stave => stave.setNoteStartX(noteStartX).setContext(context).draw());
+
+      if (isSystemStart && staffCount > 1) {
+        new StaveConnector(staves[0], staves[staffCount - 1]).setType('brace').setContext(context).draw();
+        new StaveConnector(staves[0], staves[staffCount - 1]).setType('singleLeft').setContext(context).draw();
+      }
+      if (staffCount > 1) {
+        const barType = measureIndex === score.measures.length - 1 ? 'boldDoubleRight' : 'singleRight';
+        new StaveConnector(staves[0], staves[staffCount - 1]).setType(barType).setContext(context).draw();
+      }
+
+      // Voices, per staff
+      const formatter = new Formatter();
+      const voicesToDraw: { voice: Voice; stave: Stave }[] = [];
+      const beams: Beam[] = [];
+      const tuplets: Tuplet[] = [];
+      const noteLookup = new Map<ScoreNote, StaveNote>();
+
+      staves.forEach((stave, staffIndex) => {
+        const staffNotes = measure.notes.filter(note => note.staff === staffIndex + 1);
+        const clef = measure.clefs[staffIndex] ?? 'treble';
+        const voiceIds = Array.from(new Set(staffNotes.map(note => note.voice)));
+        const accidentals = displayAccidentals(staffNotes, measure.fifths);
+
+        const staffVoices: Voice[] = [];
+        const voiceGroups = voiceIds.length > 0 ? voiceIds : [null];
+        voiceGroups.forEach((voiceId, voiceIndex) => {
+          const notes: ScoreNote[] = voiceId === null
+            ? [{
+                start: 0, duration: (measure.divisions * measure.beats * 4) / measure.beatType, staff: staffIndex + 1, voice: '1', pitches: [],
+                accidentals: [], tieStart: [], tieStop: [], type: null, dots: 0, isMeasureRest: true, tuplet: null,
+              }] // Nothing written on this staff: show a whole-bar rest
+            : staffNotes.filter(note => note.voice === voiceId);
+          const stemDirection = voiceGroups.length > 1 ? (voiceIndex === 0 ? Stem.UP : Stem.DOWN) : null;
+          const built = buildVoiceNotes(notes, measure, clef, stemDirection, accidentals);
+          built.staveNotes.forEach((staveNote, note) => noteLookup.set(note, staveNote));
+          tuplets.push(...built.tuplets);
+
+          const voice = new Voice({ num_beats: measure.beats, beat_value: measure.beatType }).setMode(Voice.Mode.SOFT);
+          voice.addTickables(built.tickables);
+          voice.setStave(stave);
+          staffVoices.push(voice);
+          voicesToDraw.push({ voice, stave });
+
+          const beamable = built.tickables.filter(tickable => tickable instanceof StaveNote) as StaveNote[];
+          beams.push(
+            ...Beam.generateBeams(beamable, {
+              groups: Beam.getDefaultBeamGroups(timeSignature(measure)),
+              maintain_stem_directions: stemDirection !== null,
+            })
+          );
+        });
+        formatter.joinVoices(staffVoices);
+      });
+
+      formatter.format(
+        voicesToDraw.map(({ voice }) => voice),
+        Math.max(20, staves[0].getNoteEndX() - noteStartX - 10)
+      );
+      voicesToDraw.forEach(({ voice, stave }) => voice.draw(context, stave));
+      beams.forEach(beam => beam.setContext(context).draw());
+      tuplets.forEach(tuplet => tuplet.setContext(context).draw());
+
+      // Ties - a tie whose notes land on different systems is drawn as two halves
+      measure.notes.forEach(note => {
+        const staveNote = noteLookup.get(note);
+        if (!staveNote) return;
+        note.pitches.forEach((pitch, index) => {
+          const key = `${note.staff}|${pitch.step}${pitch.alter}${pitch.octave}`;
+          if (note.tieStop[index]) {
+            const start = pendingTies.get(key);
+            if (start) {
+              pendingTies.delete(key);
+              if (start.system === systemIndex) {
+                new StaveTie({ first_note: start.note, last_note: staveNote, first_indices: [start.index], last_indices: [index] })
+                  .setContext(context)
+                  .draw();
+              } else {
+                new StaveTie({ first_note: start.note, last_note: null, first_indices: [start.index], last_indices: [start.index] })
+                  .setContext(context)
+                  .draw();
+                new StaveTie({ first_note: null, last_note: staveNote, first_indices: [index], last_indices: [index] })
+                  .setContext(context)
+                  .draw();
+              }
+            }
+          }
+          if (note.tieStart[index]) pendingTies.set(key, { note: staveNote, index, system: systemIndex });
+        });
+      });
+
+      // Sustain pedal - a system it is still down in starts by restating it
+      const bottomStaff = score.staves;
+      if (isSystemStart && isPedalDown) {
+        const first = pedalNote({ start: 0, staff: bottomStaff, isDown: true }, noteLookup);
+        if (first) pedalNotes.push(first);
+      }
+      measure.pedals.forEach(pedal => {
+        if (pedal.isDown === isPedalDown) return;
+        isPedalDown = pedal.isDown;
+        const staveNote = pedalNote(pedal, noteLookup);
+        const isPressDrawn = pedalNotes.length % 2 === 1;
+        if (!staveNote || isPressDrawn === pedal.isDown) return;
+        if (isPressDrawn && pedalNotes[pedalNotes.length - 1] === staveNote) pedalNotes.pop(); // Lifted on the note it went down on
+        else pedalNotes.push(staveNote);
+      });
+      const last = pedalNote({ start: Infinity, staff: bottomStaff, isDown: false }, noteLookup);
+      if (last) lastPedalNote = last;
+
+      x += measureWidth;
+    });
+
+    if (pedalNotes.length % 2 === 1 && lastPedalNote) pedalNotes.push(lastPedalNote); // Carried on in the next system
+    if (pedalNotes.length > 1) {
+      PedalMarking.createSustain(pedalNotes).setType(PedalMarking.type.MIXED).setContext(context).draw();
+    }
+  });
+
+  console.log(`[renderScore] Engraved ${score.measures.length} measures in ${systems.length} systems.`);
+}
@@ -0,0 +1,115 @@
+import type { Note } from './audioAnalysis';
+import { noteNameToMidi, parseNoteName, SpelledPitch } from './musicTheory';
+import { QuantizedScore, TICKS_PER_QUARTER } from './quantization';
+
+// --- Voice Assignment ---
+// Turns one staff's quantized notes into chords and voices for notation. Notes that
+// start together and end (nearly) together become one chord with a shared duration;
+// a note that sustains past the moving line goes to a second voice in the same staff.
+
+export const MAX_VOICES_PER_STAFF = 2;
+const CHORD_END_TOLERANCE = TICKS_PER_QUARTER / 4; // Ends within a sixteenth share the chord's duration
+
+export interface StaffNote {
+  midi: number;
+  pitch: SpelledPitch; // As the note is spelled
+  start: number; // Ticks from the start of the piece
+  end: number;
+  confidence?: number; // How sure the detector was of the note
+  note: Note; // The transcribed note it is written for
+}
+
+// Notes of one voice that start and end together
+export interface ChordGroup {
+  start: number;
+  end: number;
+  midis: number[]; // Ascending
+  pitches: SpelledPitch[]; // Spelling of each of midis
+  confidence?: number; // Of its least certain note, when known
+  notes: Note[]; // The transcribed notes written in it
+}
+
+/**
+ * Looks up the quantized timing of one staff's notes
+ * @param notes Notes of the staff
+ * @param score Quantized score containing those notes
+ * @returns The notes with a known pitch, in ticks
+ */
+export function toStaffNotes(notes: Note[], score: QuantizedScore): StaffNote[] {
+  const quantizedByNote = new Map(score.notes.map(quantized => [quantized.note, quantized]));
+  return notes.flatMap(note => {
+    const midi = noteNameToMidi(note.pitch);
+    const pitch = parseNoteName(note.pitch);
+    const quantized = quantizedByNote.get(note);
+    return midi !== null && pitch && quantized
+      ? [{ midi, pitch, start: quantized.start, end: quantized.end, confidence: note.confidence, note }]
+      : [];
+  });
+}
+
+/**
+ * Starts a chord with a single note
+ */
+function chordOf(note: StaffNote): ChordGroup {
+  return {
+    start: note.start,
+    end: note.end,
+    midis: [note.midi],
+    pitches: [note.pitch],
+    confidence: note.confidence,
+    notes: [note.note],
+  };
+}
+
+/**
+ * Adds a note to a chord, keeping its pitches in ascending order
+ */
+function addToChord(group: ChordGroup, note: StaffNote) {
+  group.notes.push(note.note);
+  if (group.midis.includes(note.midi)) return;
+  if (note.confidence !== undefined) group.confidence = Math.min(group.confidence ?? 1, note.confidence);
+  const index = group.midis.filter(midi => midi < note.midi).length;
+  group.midis.splice(index, 0, note.midi);
+  group.pitches.splice(index, 0, note.pitch);
+}
+
+/**
+ * Distributes one staff's notes over its voices
+ * @param staffNotes Quantized notes of the staff
+ * @returns Chord groups per voice; the first voice is never empty unless staffNotes is
+ */
+export function assignVoices(staffNotes: StaffNote[]): ChordGroup[][] {
+  const voices: ChordGroup[][] = Array.from({ length: MAX_VOICES_PER_STAFF }, () => []);
+  // Shortest first, so the moving line claims the main voice
+  const notes = [...staffNotes].sort((a, b) => a.start - b.start || a.end - b.end || a.midi - b.midi);
+
+  notes.forEach(note => {
+    // Join a chord that starts together and ends close enough to it...
+    for (const groups of voices) {
+      const last = groups[groups.length - 1];
+      if (last && last.start === note.start && Math.abs(last.end - note.end) <= CHORD_END_TOLERANCE) {
+        addToChord(last, note);
+        return;
+      }
+    }
+    // ...or start a new chord in the first voice that is free by then
+    for (const groups of voices) {
+      const last = groups[groups.length - 1];
+      if (!last || last.end <= note.start) {
+        groups.push(chordOf(note));
+        return;
+      }
+    }
+    // Every voice is busy: the main voice's current chord gives way
+    const main = voices[0];
+    const last = main[main.length - 1];
+    if (last.start === note.start) {
+      addToChord(last, note);
+    } else {
+      last.end = note.start;
+      main.push(chordOf(note));
+    }
+  });
+
+  return voices.filter((groups, index) => index === 0 || groups.length > 0);
+}
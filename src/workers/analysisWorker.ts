@@ -0,0 +1,65 @@
+import { analyzeChunk, finalizeAnalysis, AnalysisProgress } from '../utils/analysisPipeline';
+import { createStitchState, stitchChunk, AnalysisChunk, StitchState } from '../utils/chunkedAnalysis';
+import type { AudioAnalysisResult } from '../utils/audioAnalysis';
+
+// --- Message Protocol ---
+// The main thread sends one chunk at a time and waits for its 'partial' (or final
+// 'result') reply before sending the next, so only one chunk of PCM is in flight.
+export interface AnalysisWorkerRequest {
+  type: 'chunk';
+  chunk: AnalysisChunk;
+  channels: Float32Array[]; // PCM per channel for the chunk's window (transferred, not copied)
+  sampleRate: number;
+}
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'partial'; result: AudioAnalysisResult | null } // Everything analysed so far (null while there is nothing new to show)
+  | { type: 'result'; result: AudioAnalysisResult }
+  | { type: 'error'; message: string };
+
+function post(message: AnalysisWorkerResponse) {
+  self.postMessage(message);
+}
+
+// Finalising re-derives beats, key, meter and hands from the whole recording, so it costs more
+// as the recording grows; partial results are skipped until the chunks analysed since the last
+// one have taken long enough that finalising stays within this share of the worker's time
+const PARTIAL_BUDGET = 0.25;
+
+let stitchState: StitchState = createStitchState();
+let lastPartialEnd = 0; // performance.now() when the last partial result was posted
+let partialCost = 0; // Milliseconds the last partial result took to finalise
+
+// --- Worker Entry ---
+// Decoding needs an AudioContext and stays on the main thread; everything after
+// that (mixdown, onsets, notes, beats, key, meter) runs here.
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { chunk, channels, sampleRate } = event.data;
+  try {
+    if (chunk.index === 0) {
+      stitchState = createStitchState();
+      lastPartialEnd = performance.now();
+      partialCost = 0;
+    }
+
+    const onProgress = (progress: AnalysisProgress) => post({ type: 'progress', progress });
+    stitchChunk(stitchState, chunk, analyzeChunk(channels, sampleRate, chunk, onProgress));
+
+    if (chunk.index === chunk.count - 1) {
+      const result = finalizeAnalysis(stitchState, chunk.coreEnd, onProgress);
+      post({ type: 'result', result });
+    } else if (performance.now() - lastPartialEnd < partialCost / PARTIAL_BUDGET) {
+      post({ type: 'partial', result: null });
+    } else {
+      // A failure so far (nothing played yet) may still turn into a transcription
+      const started = performance.now();
+      const result = finalizeAnalysis(stitchState, chunk.coreEnd);
+      lastPartialEnd = performance.now();
+      partialCost = lastPartialEnd - started;
+      post({ type: 'partial', result: result.error ? null : result });
+    }
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
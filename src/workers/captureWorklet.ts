@@ -0,0 +1,52 @@
+// --- PCM Capture Worklet ---
+// Runs on the audio rendering thread. Mixes each 128-sample render quantum down to
+// mono and posts it to the main thread in blocks ({ samples, final }), so live
+// transcription can feed the same analysis pipeline as uploaded files.
+
+// The AudioWorkletGlobalScope isn't part of the DOM lib typings
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processorCtor: typeof AudioWorkletProcessor): void;
+
+// Must match CAPTURE_PROCESSOR_NAME in utils/liveTranscription.ts (importing it
+// from there would pull main-thread code into the worklet scope)
+const CAPTURE_PROCESSOR_NAME = 'keyscribe-pcm-capture';
+
+const BLOCK_SIZE = 4096; // Samples per posted block (~90ms at 44.1kHz)
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private block = new Float32Array(BLOCK_SIZE);
+  private filled = 0;
+
+  constructor() {
+    super();
+    // Any message from the main thread asks for the partially filled block (sent on
+    // stop). It is always answered, even when empty, so the caller can wait for it.
+    this.port.onmessage = () => {
+      this.port.postMessage({ samples: this.block.slice(0, this.filled), final: true });
+      this.filled = 0;
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true; // Input not connected yet
+
+    const length = channels[0].length;
+    for (let i = 0; i < length; i++) {
+      let sum = 0;
+      for (let c = 0; c < channels.length; c++) sum += channels[c][i];
+      this.block[this.filled++] = sum / channels.length;
+
+      if (this.filled === BLOCK_SIZE) {
+        this.port.postMessage({ samples: this.block, final: false }, [this.block.buffer]);
+        this.block = new Float32Array(BLOCK_SIZE);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor(CAPTURE_PROCESSOR_NAME, PcmCaptureProcessor);